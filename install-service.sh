@@ -124,6 +124,7 @@ WorkingDirectory=${APP_DIR}
 Environment="PATH=/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin:/home/${USER}/.bun/bin"
 Environment="CONFIG_PATH=${APP_DIR}/config.yaml"
 ExecStart=${BUN_PATH} run ${APP_DIR}/src/index.ts
+ExecReload=/bin/kill -HUP \$MAINPID
 Restart=always
 RestartSec=10
 StandardOutput=journal
@@ -0,0 +1,140 @@
+import { logger } from './logger';
+import { Config } from './config';
+import { EmittedEvent, subscribeEvents } from './events';
+import { getCurrentProxy } from './proxy';
+import { sendAlert, escapeMarkdown, formatMarkdownCode } from './telegram';
+
+interface ActiveAlert {
+  client: string | null;
+  raised_at: string;
+}
+
+// Keyed by what is broken, e.g. "tunnel:alice" or "proxy:<proxy id>"
+const activeAlerts = new Map<string, ActiveAlert>();
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Send an alert unless one with the same key is already open
+ */
+function raiseAlert(key: string, clientName: string | null, message: string): void {
+  if (activeAlerts.has(key)) {
+    logger.debug({ component: 'alerts', key }, 'Alert already open, not sending again');
+    return;
+  }
+
+  activeAlerts.set(key, { client: clientName, raised_at: new Date().toISOString() });
+  logger.info({ component: 'alerts', key, client: clientName }, 'Alert raised');
+
+  sendAlert(clientName, message).catch(error => {
+    logger.error({ component: 'alerts', error, key }, 'Error sending alert');
+  });
+}
+
+/**
+ * Close an open alert and send a recovery message. Does nothing when no
+ * alert with this key is open.
+ */
+function resolveAlert(key: string, buildMessage: (downMinutes: number) => string): void {
+  const alert = activeAlerts.get(key);
+  if (!alert) {
+    return;
+  }
+
+  activeAlerts.delete(key);
+  const downMinutes = Math.max(1, Math.round((Date.now() - new Date(alert.raised_at).getTime()) / 60000));
+  logger.info({ component: 'alerts', key, client: alert.client, down_minutes: downMinutes }, 'Alert resolved');
+
+  sendAlert(alert.client, buildMessage(downMinutes)).catch(error => {
+    logger.error({ component: 'alerts', error, key }, 'Error sending recovery message');
+  });
+}
+
+function handleEvent(config: Config, event: EmittedEvent): void {
+  const enabled = config.telegram!.alerts;
+
+  switch (event.type) {
+    case 'tunnel_restart_given_up':
+      if (enabled.tunnel_failure) {
+        raiseAlert(`tunnel:${event.client}`, event.client,
+          `🚨 *Tunnel Down*\n\n` +
+          `*Client:* ${escapeMarkdown(event.client)}\n` +
+          `*Proxy:* ${formatMarkdownCode(event.proxy)}\n\n` +
+          `tun2socks failed ${event.attempts} restarts in a row. ` +
+          `The client is being moved to another proxy; you will get a message once its tunnel runs again.`
+        );
+      }
+      break;
+
+    case 'tunnel_started':
+      resolveAlert(`tunnel:${event.client}`, downMinutes =>
+        `✅ *Tunnel Recovered*\n\n` +
+        `*Client:* ${escapeMarkdown(event.client)}\n` +
+        `*Location:* ${escapeMarkdown(getCurrentProxy(event.client)?.location || 'Unknown')}\n` +
+        `*Proxy:* ${formatMarkdownCode(event.proxy)}\n\n` +
+        `The tunnel was down for about ${downMinutes} min.`
+      );
+      break;
+
+    case 'proxy_unhealthy':
+      if (enabled.proxy_health) {
+        raiseAlert(`proxy:${event.proxy}`, null,
+          `⚠️ *Proxy Unhealthy*\n\n` +
+          `*Location:* ${escapeMarkdown(event.location)}\n` +
+          `*Proxy:* ${formatMarkdownCode(event.proxy)}\n` +
+          `*Error:* ${formatMarkdownCode(event.error)}\n\n` +
+          `No client is assigned to it until it passes health checks again.`
+        );
+      }
+      break;
+
+    case 'proxy_recovered':
+      resolveAlert(`proxy:${event.proxy}`, downMinutes =>
+        `✅ *Proxy Recovered*\n\n` +
+        `*Location:* ${escapeMarkdown(event.location)}\n` +
+        `*Proxy:* ${formatMarkdownCode(event.proxy)}\n\n` +
+        `It was unhealthy for about ${downMinutes} min.`
+      );
+      break;
+
+    case 'wireguard_down':
+      if (enabled.wireguard) {
+        raiseAlert(`wireguard:${event.interface}`, null,
+          `🚨 *WireGuard Down*\n\n` +
+          `*Interface:* ${escapeMarkdown(event.interface)}\n` +
+          (event.error ? `*Error:* ${formatMarkdownCode(event.error)}\n` : '') +
+          `\nNo client can connect until the interface is back.`
+        );
+      }
+      break;
+
+    case 'wireguard_up':
+      resolveAlert(`wireguard:${event.interface}`, downMinutes =>
+        `✅ *WireGuard Recovered*\n\n` +
+        `*Interface:* ${escapeMarkdown(event.interface)}\n\n` +
+        `It was down for about ${downMinutes} min.`
+      );
+      break;
+  }
+}
+
+/**
+ * Turn lifecycle events into Telegram alerts with recovery messages.
+ * Requires the Telegram bot to be created first.
+ */
+export function startAlerts(config: Config): void {
+  if (!config.telegram) {
+    return;
+  }
+
+  stopAlerts();
+  unsubscribe = subscribeEvents(event => handleEvent(config, event));
+
+  logger.info({ component: 'alerts', alerts: config.telegram.alerts }, 'Telegram alerts enabled');
+}
+
+export function stopAlerts(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+}
@@ -0,0 +1,730 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { logger } from './logger';
+import { Config, ApiKeyScope, Proxy, PROXY_TYPES, getProxyType } from './config';
+import { getClientConfig, createClient, disableClient, enableClient, deleteClient } from './client';
+import { generateQRCode } from './qr';
+import { rotateProxyForClient, getCurrentProxy, getProxyLocations } from './proxy';
+import { getPeerStatuses, getClientPeerStatus } from './wireguard';
+import { getRegisteredClients, getRegisteredClient, RegisteredClient } from './registry';
+import { getClientState, getProxyHealth } from './state';
+import { AuthEnv, requireScope, canAccessClient, hasUnrestrictedAccess } from './auth';
+import { getWebhookDeliveries } from './webhooks';
+import { isProxyHealthy } from './health';
+import { startTemporarySwitch, revertTemporarySwitch, MAX_SWITCH_DURATION_MS } from './switch';
+import { ClientConflictError, ClientNotFoundError, InvalidClientNameError } from './errors';
+
+export const API_V1_PREFIX = '/api/v1';
+
+const ClientNameSchema = z.object({
+  name: z.string().min(1),
+});
+
+const RotateRequestSchema = z.object({
+  location: z.string().optional(),
+});
+
+const SwitchRequestSchema = z.object({
+  location: z.string().min(1),
+  duration_seconds: z.number().int().min(60).max(MAX_SWITCH_DURATION_MS / 1000),
+});
+
+const CreateClientRequestSchema = z.object({
+  name: z.string().min(1),
+});
+
+const WebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+/**
+ * Error returned by v1 handlers as `{ error, code, details? }`
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: 400 | 401 | 403 | 404 | 409 | 500,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Map client lifecycle errors to HTTP status codes. Anything else is an
+ * internal failure (500) whose message must not reach the caller.
+ */
+export function getLifecycleErrorStatus(error: unknown): 400 | 404 | 409 | 500 {
+  if (error instanceof ClientNotFoundError) {
+    return 404;
+  }
+  if (error instanceof ClientConflictError) {
+    return 409;
+  }
+  if (error instanceof InvalidClientNameError) {
+    return 400;
+  }
+  return 500;
+}
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  500: 'internal_error',
+};
+
+type ApiHandler = (c: Context<AuthEnv>) => Promise<Response>;
+
+interface ApiRoute {
+  method: 'get' | 'post' | 'delete';
+  path: string; // Hono path relative to the prefix, e.g. /clients/:name
+  scope: ApiKeyScope;
+  tag: string;
+  summary: string;
+  requestSchema?: string; // components.schemas entry for the JSON body
+  responseStatus: 200 | 201;
+  responseSchema?: string; // components.schemas entry, or a non-JSON content type below
+  responseContentType?: 'text/plain' | 'image/png';
+  handler: ApiHandler;
+}
+
+function requireClient(c: Context<AuthEnv>): RegisteredClient {
+  const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
+  const client = getRegisteredClient(name);
+  if (!client) {
+    throw new ApiError(404, 'not_found', `Client ${name} not found`);
+  }
+  return client;
+}
+
+// Proxy URLs carry credentials and are never returned
+function describeProxy(proxy: Proxy) {
+  const health = getProxyHealth(proxy.id);
+  return {
+    id: proxy.id,
+    type: getProxyType(proxy.url),
+    location: proxy.location,
+    healthy: health ? isProxyHealthy(proxy.id) : null,
+    latency_ms: health ? health.latency_ms : null,
+    last_check: health?.last_check || null,
+    last_error: health?.last_error || null,
+  };
+}
+
+function describeClient(client: RegisteredClient) {
+  const clientState = getClientState(client.name);
+  return {
+    name: client.name,
+    enabled: client.enabled,
+    source: client.source,
+    created_at: client.created_at,
+    proxy: getCurrentProxy(client.name),
+    last_rotation: clientState?.last_rotation || null,
+    temporary_switch: clientState?.temporary_switch || null,
+  };
+}
+
+/**
+ * Build the route table. Every route is registered from this list and the
+ * OpenAPI document is generated from it, so the two cannot drift apart.
+ */
+function buildRoutes(config: Config): ApiRoute[] {
+  return [
+    {
+      method: 'get',
+      path: '/locations',
+      scope: 'read',
+      tag: 'Proxies',
+      summary: 'List proxy locations with proxy counts',
+      responseStatus: 200,
+      responseSchema: 'LocationList',
+      handler: async (c) => {
+        const locations = getProxyLocations(config).map(location => {
+          const proxies = config.proxies.filter(p => p.location === location);
+          return {
+            location,
+            proxies: proxies.length,
+            healthy_proxies: proxies.filter(p => isProxyHealthy(p.id)).length,
+          };
+        });
+        return c.json({ locations });
+      },
+    },
+    {
+      method: 'get',
+      path: '/proxies',
+      scope: 'read',
+      tag: 'Proxies',
+      summary: 'List proxies grouped by location, with health',
+      responseStatus: 200,
+      responseSchema: 'ProxyList',
+      handler: async (c) => {
+        const locations = getProxyLocations(config).map(location => ({
+          location,
+          proxies: config.proxies
+            .filter(p => p.location === location)
+            .map(describeProxy),
+        }));
+        return c.json({ locations });
+      },
+    },
+    {
+      method: 'get',
+      path: '/wireguard',
+      scope: 'read',
+      tag: 'WireGuard',
+      summary: 'WireGuard interface status and per-peer details',
+      responseStatus: 200,
+      responseSchema: 'WireGuardStatus',
+      handler: async (c) => {
+        const wgStatus = getPeerStatuses(config);
+        return c.json({
+          interface: config.wireguard.interface,
+          ...wgStatus,
+          peers: wgStatus.peers.filter(p => hasUnrestrictedAccess(c) || (p.client && canAccessClient(c, p.client))),
+          timestamp: new Date().toISOString(),
+        });
+      },
+    },
+    {
+      method: 'get',
+      path: '/clients',
+      scope: 'read',
+      tag: 'Clients',
+      summary: 'List clients, including disabled ones',
+      responseStatus: 200,
+      responseSchema: 'ClientList',
+      handler: async (c) => {
+        const clients = getRegisteredClients()
+          .filter(client => canAccessClient(c, client.name))
+          .map(describeClient);
+        return c.json({ clients });
+      },
+    },
+    {
+      method: 'post',
+      path: '/clients',
+      scope: 'admin',
+      tag: 'Clients',
+      summary: 'Create a client and assign it a proxy',
+      requestSchema: 'CreateClientRequest',
+      responseStatus: 201,
+      responseSchema: 'Client',
+      handler: async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        const { name } = CreateClientRequestSchema.parse(body);
+
+        if (!canAccessClient(c, name)) {
+          throw new ApiError(403, 'forbidden', 'API key is not allowed to access this client');
+        }
+
+        await createClient(name);
+        return c.json(describeClient(getRegisteredClient(name)!), 201);
+      },
+    },
+    {
+      method: 'get',
+      path: '/clients/:name',
+      scope: 'read',
+      tag: 'Clients',
+      summary: 'Client details including rotation history and proxy usage dates',
+      responseStatus: 200,
+      responseSchema: 'ClientDetails',
+      handler: async (c) => {
+        const client = requireClient(c);
+        const clientState = getClientState(client.name);
+        return c.json({
+          ...describeClient(client),
+          peer: getClientPeerStatus(client.name, config),
+          rotation_history: clientState?.rotation_history || [],
+          proxy_usage_dates: clientState?.proxy_usage_dates || {},
+        });
+      },
+    },
+    {
+      method: 'delete',
+      path: '/clients/:name',
+      scope: 'admin',
+      tag: 'Clients',
+      summary: 'Delete a client created at runtime',
+      responseStatus: 200,
+      responseSchema: 'ClientActionResult',
+      handler: async (c) => {
+        const client = requireClient(c);
+        await deleteClient(client.name);
+        return c.json({ success: true, client: client.name, timestamp: new Date().toISOString() });
+      },
+    },
+    {
+      method: 'post',
+      path: '/clients/:name/disable',
+      scope: 'admin',
+      tag: 'Clients',
+      summary: 'Disable a client (peer and tunnel removed, keys kept)',
+      responseStatus: 200,
+      responseSchema: 'ClientActionResult',
+      handler: async (c) => {
+        const client = requireClient(c);
+        await disableClient(client.name);
+        return c.json({ success: true, client: client.name, timestamp: new Date().toISOString() });
+      },
+    },
+    {
+      method: 'post',
+      path: '/clients/:name/enable',
+      scope: 'admin',
+      tag: 'Clients',
+      summary: 'Re-enable a disabled client',
+      responseStatus: 200,
+      responseSchema: 'ClientActionResult',
+      handler: async (c) => {
+        const client = requireClient(c);
+        await enableClient(client.name);
+        return c.json({ success: true, client: client.name, timestamp: new Date().toISOString() });
+      },
+    },
+    {
+      method: 'post',
+      path: '/clients/:name/rotate',
+      scope: 'rotate',
+      tag: 'Clients',
+      summary: 'Rotate the client to a fresh proxy, optionally in a given location',
+      requestSchema: 'RotateRequest',
+      responseStatus: 200,
+      responseSchema: 'Client',
+      handler: async (c) => {
+        const client = requireClient(c);
+        const body = await c.req.json().catch(() => ({}));
+        const { location } = RotateRequestSchema.parse(body);
+
+        if (location && !getProxyLocations(config).includes(location)) {
+          throw new ApiError(400, 'unknown_location', `Unknown location ${location}`);
+        }
+
+        await rotateProxyForClient(client.name, location);
+        return c.json(describeClient(client));
+      },
+    },
+    {
+      method: 'post',
+      path: '/clients/:name/switch',
+      scope: 'rotate',
+      tag: 'Clients',
+      summary: 'Switch the client to a location for a limited time, then switch it back',
+      requestSchema: 'SwitchRequest',
+      responseStatus: 200,
+      responseSchema: 'Client',
+      handler: async (c) => {
+        const client = requireClient(c);
+        const body = await c.req.json().catch(() => ({}));
+        const { location, duration_seconds } = SwitchRequestSchema.parse(body);
+
+        if (!getProxyLocations(config).includes(location)) {
+          throw new ApiError(400, 'unknown_location', `Unknown location ${location}`);
+        }
+
+        await startTemporarySwitch(client.name, location, duration_seconds * 1000);
+        return c.json(describeClient(client));
+      },
+    },
+    {
+      method: 'delete',
+      path: '/clients/:name/switch',
+      scope: 'rotate',
+      tag: 'Clients',
+      summary: 'End a temporary switch now and return the client to its previous location',
+      responseStatus: 200,
+      responseSchema: 'Client',
+      handler: async (c) => {
+        const client = requireClient(c);
+        if (!await revertTemporarySwitch(client.name)) {
+          throw new ApiError(404, 'not_found', `Client ${client.name} has no temporary switch`);
+        }
+        return c.json(describeClient(client));
+      },
+    },
+    {
+      method: 'get',
+      path: '/clients/:name/config',
+      scope: 'read',
+      tag: 'Clients',
+      summary: 'WireGuard configuration file for the client',
+      responseStatus: 200,
+      responseContentType: 'text/plain',
+      handler: async (c) => {
+        const client = requireClient(c);
+        const clientConfig = getClientConfig(client.name);
+        if (!clientConfig) {
+          throw new ApiError(404, 'not_found', `Client config not found for ${client.name}`);
+        }
+        return c.text(clientConfig, 200, { 'Content-Type': 'text/plain' });
+      },
+    },
+    {
+      method: 'get',
+      path: '/clients/:name/qr',
+      scope: 'read',
+      tag: 'Clients',
+      summary: 'QR code of the client configuration',
+      responseStatus: 200,
+      responseContentType: 'image/png',
+      handler: async (c) => {
+        const client = requireClient(c);
+        const qrBuffer = await generateQRCode(client.name);
+        return new Response(qrBuffer, { status: 200, headers: { 'Content-Type': 'image/png' } });
+      },
+    },
+    {
+      method: 'get',
+      path: '/webhooks/deliveries',
+      scope: 'admin',
+      tag: 'Webhooks',
+      summary: 'Recent webhook deliveries with every attempt, newest first',
+      responseStatus: 200,
+      responseSchema: 'WebhookDeliveryList',
+      handler: async (c) => {
+        if (!hasUnrestrictedAccess(c)) {
+          throw new ApiError(403, 'forbidden', 'Webhook deliveries require an API key that is not restricted to specific clients');
+        }
+        const { status, limit } = WebhookDeliveriesQuerySchema.parse(c.req.query());
+        return c.json({ deliveries: getWebhookDeliveries({ status, limit }) });
+      },
+    },
+  ];
+}
+
+const nullable = (schema: object) => ({ ...schema, nullable: true });
+
+const OPENAPI_SCHEMAS = {
+  Error: {
+    type: 'object',
+    required: ['error', 'code'],
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string', example: 'not_found' },
+      details: {},
+    },
+  },
+  LocationList: {
+    type: 'object',
+    properties: {
+      locations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            location: { type: 'string' },
+            proxies: { type: 'integer' },
+            healthy_proxies: { type: 'integer' },
+          },
+        },
+      },
+    },
+  },
+  Proxy: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Stable proxy ID; proxy URLs and credentials are never returned' },
+      type: { type: 'string', enum: [...PROXY_TYPES] },
+      location: { type: 'string' },
+      healthy: nullable({ type: 'boolean' }),
+      latency_ms: nullable({ type: 'integer' }),
+      last_check: nullable({ type: 'string', format: 'date-time' }),
+      last_error: nullable({ type: 'string' }),
+    },
+  },
+  ProxyList: {
+    type: 'object',
+    properties: {
+      locations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            location: { type: 'string' },
+            proxies: { type: 'array', items: { $ref: '#/components/schemas/Proxy' } },
+          },
+        },
+      },
+    },
+  },
+  PeerStatus: {
+    type: 'object',
+    properties: {
+      client: nullable({ type: 'string' }),
+      public_key: { type: 'string' },
+      endpoint: nullable({ type: 'string' }),
+      allowed_ips: { type: 'array', items: { type: 'string' } },
+      latest_handshake: nullable({ type: 'string', format: 'date-time' }),
+      handshake_age_seconds: nullable({ type: 'integer' }),
+      rx_bytes: { type: 'integer' },
+      tx_bytes: { type: 'integer' },
+      online: { type: 'boolean' },
+    },
+  },
+  WireGuardStatus: {
+    type: 'object',
+    properties: {
+      interface: { type: 'string' },
+      status: { type: 'string', enum: ['up', 'down'] },
+      peers: { type: 'array', items: { $ref: '#/components/schemas/PeerStatus' } },
+      error: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+    },
+  },
+  CurrentProxy: nullable({
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Proxy ID' },
+      location: { type: 'string' },
+    },
+  }),
+  Client: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      enabled: { type: 'boolean' },
+      source: { type: 'string', enum: ['config', 'runtime'] },
+      created_at: { type: 'string', format: 'date-time' },
+      proxy: { $ref: '#/components/schemas/CurrentProxy' },
+      last_rotation: nullable({ type: 'string', format: 'date-time' }),
+      temporary_switch: nullable({ $ref: '#/components/schemas/TemporarySwitch' }),
+    },
+  },
+  TemporarySwitch: {
+    type: 'object',
+    properties: {
+      location: { type: 'string' },
+      revert_location: { type: 'string', description: 'Location restored afterwards; empty means any' },
+      started_at: { type: 'string', format: 'date-time' },
+      revert_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  ClientList: {
+    type: 'object',
+    properties: {
+      clients: { type: 'array', items: { $ref: '#/components/schemas/Client' } },
+    },
+  },
+  RotationHistoryEntry: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      old_proxy: { type: 'string', description: 'Proxy ID' },
+      new_proxy: { type: 'string', description: 'Proxy ID' },
+      old_location: { type: 'string' },
+      new_location: { type: 'string' },
+      reason: { type: 'string', enum: ['scheduled', 'manual', 'tunnel_failure', 'proxy_removed'] },
+    },
+  },
+  ClientDetails: {
+    allOf: [
+      { $ref: '#/components/schemas/Client' },
+      {
+        type: 'object',
+        properties: {
+          peer: nullable({ $ref: '#/components/schemas/PeerStatus' }),
+          rotation_history: { type: 'array', items: { $ref: '#/components/schemas/RotationHistoryEntry' } },
+          proxy_usage_dates: {
+            type: 'object',
+            description: 'Last time each proxy was assigned to the client, by proxy ID',
+            additionalProperties: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+    ],
+  },
+  ClientActionResult: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      client: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+    },
+  },
+  WebhookDelivery: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      url: { type: 'string', description: 'Origin of the webhook URL' },
+      event_id: { type: 'integer' },
+      event_type: { type: 'string' },
+      status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+      next_attempt_at: nullable({ type: 'string', format: 'date-time' }),
+      attempts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            attempt: { type: 'integer' },
+            timestamp: { type: 'string', format: 'date-time' },
+            status_code: nullable({ type: 'integer' }),
+            error: nullable({ type: 'string' }),
+            duration_ms: { type: 'integer' },
+          },
+        },
+      },
+    },
+  },
+  WebhookDeliveryList: {
+    type: 'object',
+    properties: {
+      deliveries: { type: 'array', items: { $ref: '#/components/schemas/WebhookDelivery' } },
+    },
+  },
+  CreateClientRequest: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string', pattern: '^[a-zA-Z0-9_-]{1,32}$' },
+    },
+  },
+  RotateRequest: {
+    type: 'object',
+    properties: {
+      location: { type: 'string', description: 'Preferred location; any location when omitted' },
+    },
+  },
+  SwitchRequest: {
+    type: 'object',
+    required: ['location', 'duration_seconds'],
+    properties: {
+      location: { type: 'string' },
+      duration_seconds: { type: 'integer', minimum: 60, maximum: MAX_SWITCH_DURATION_MS / 1000 },
+    },
+  },
+};
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+}
+
+/**
+ * Generate the OpenAPI 3 document for the v1 routes
+ */
+function buildOpenApiDocument(routes: ApiRoute[]): object {
+  const paths: Record<string, Record<string, object>> = {};
+
+  for (const route of routes) {
+    const openApiPath = API_V1_PREFIX + route.path.replace(/:(\w+)/g, '{$1}');
+    const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(match => ({
+      name: match[1],
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+
+    const successContent = route.responseContentType
+      ? { [route.responseContentType]: { schema: { type: 'string', format: route.responseContentType === 'image/png' ? 'binary' : undefined } } }
+      : { 'application/json': { schema: { $ref: `#/components/schemas/${route.responseSchema}` } } };
+
+    const responses: Record<string, object> = {
+      [route.responseStatus]: { description: 'Success', content: successContent },
+      400: errorResponse('Invalid request'),
+      401: errorResponse('Missing or invalid API key'),
+      403: errorResponse(`API key lacks the '${route.scope}' scope or access to the client`),
+      429: errorResponse('Too many failed authentication attempts'),
+      500: errorResponse('Internal error'),
+    };
+    if (pathParams.length > 0) {
+      responses[404] = errorResponse('Client not found');
+    }
+    if (route.method !== 'get') {
+      responses[409] = errorResponse('Conflicting client state');
+    }
+
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method] = {
+      tags: [route.tag],
+      summary: route.summary,
+      description: `Requires the \`${route.scope}\` scope.`,
+      parameters: pathParams,
+      ...(route.requestSchema && {
+        requestBody: {
+          required: route.requestSchema === 'CreateClientRequest',
+          content: { 'application/json': { schema: { $ref: `#/components/schemas/${route.requestSchema}` } } },
+        },
+      }),
+      responses,
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'WireGuard SOCKS5 Proxy API',
+      version: '1.0.0',
+    },
+    paths,
+    components: {
+      schemas: OPENAPI_SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  };
+}
+
+/**
+ * Convert any error thrown by a v1 handler into the shared error shape
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof z.ZodError) {
+    return new ApiError(400, 'invalid_request', 'Invalid request', error.errors);
+  }
+  const status = getLifecycleErrorStatus(error);
+  if (status !== 500) {
+    return new ApiError(status, ERROR_CODES[status], (error as Error).message);
+  }
+  return new ApiError(500, 'internal_error', 'Internal server error');
+}
+
+/**
+ * Versioned REST API, mounted under /api/v1. Authentication is applied by
+ * the parent app; each route checks its own scope.
+ */
+export function createApiV1(config: Config): Hono<AuthEnv> {
+  const api = new Hono<AuthEnv>();
+  const routes = buildRoutes(config);
+  const openApiDocument = buildOpenApiDocument(routes);
+
+  api.get('/openapi.json', requireScope('read'), (c) => c.json(openApiDocument));
+
+  for (const route of routes) {
+    api.on(route.method.toUpperCase(), route.path, requireScope(route.scope), route.handler);
+  }
+
+  api.all('*', (c) => {
+    return c.json({ error: `No route for ${c.req.method} ${c.req.path}`, code: 'not_found' }, 404);
+  });
+
+  api.onError((error, c) => {
+    const apiError = toApiError(error);
+    if (apiError.status === 500) {
+      logger.error({ component: 'api', error, method: c.req.method, path: c.req.path }, 'Error handling API request');
+    }
+    return c.json(
+      { error: apiError.message, code: apiError.code, ...(apiError.details !== undefined && { details: apiError.details }) },
+      apiError.status
+    );
+  });
+
+  return api;
+}
@@ -0,0 +1,201 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Context, MiddlewareHandler } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { logger } from './logger';
+import { ApiKey, ApiKeyScope, Config } from './config';
+
+const SCOPE_LEVELS: Record<ApiKeyScope, number> = {
+  read: 1,
+  rotate: 2,
+  admin: 3,
+};
+
+export type AuthEnv = {
+  Variables: {
+    // null when authentication is disabled (no api_keys configured)
+    apiKey: ApiKey | null;
+  };
+};
+
+interface FailureRecord {
+  count: number;
+  windowStart: number;
+  blockedUntil: number;
+}
+
+const failedAttempts = new Map<string, FailureRecord>();
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Find the configured key matching a presented token. Compares hashes in
+ * constant time so response timing does not leak key contents.
+ */
+function findApiKey(token: string, apiKeys: ApiKey[]): ApiKey | null {
+  const tokenHash = hashKey(token);
+  let match: ApiKey | null = null;
+  for (const apiKey of apiKeys) {
+    if (timingSafeEqual(tokenHash, hashKey(apiKey.key)) && !match) {
+      match = apiKey;
+    }
+  }
+  return match;
+}
+
+/**
+ * Read the token from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+function extractToken(c: Context): string | null {
+  const authorization = c.req.header('Authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+  }
+  return c.req.header('X-API-Key')?.trim() || null;
+}
+
+function getClientAddress(c: Context): string {
+  try {
+    return getConnInfo(c).remote.address || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+function isBlocked(address: string, now: number): boolean {
+  const record = failedAttempts.get(address);
+  return Boolean(record && record.blockedUntil > now);
+}
+
+function recordFailure(address: string, config: Config, now: number): boolean {
+  const limits = config.http!.auth_rate_limit;
+  const windowMs = limits.window_seconds * 1000;
+  let record = failedAttempts.get(address);
+
+  if (!record || now - record.windowStart > windowMs) {
+    record = { count: 0, windowStart: now, blockedUntil: 0 };
+    failedAttempts.set(address, record);
+  }
+
+  record.count++;
+  if (record.count >= limits.max_failures) {
+    record.blockedUntil = now + limits.block_seconds * 1000;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Drop expired failure records so the map does not grow without bound
+ */
+function pruneFailures(config: Config, now: number): void {
+  const windowMs = config.http!.auth_rate_limit.window_seconds * 1000;
+  for (const [address, record] of failedAttempts) {
+    if (record.blockedUntil <= now && now - record.windowStart > windowMs) {
+      failedAttempts.delete(address);
+    }
+  }
+}
+
+/**
+ * Authenticate every request with an API key. When no keys are configured
+ * the API stays open, as it was before authentication existed.
+ */
+export function createAuthMiddleware(config: Config): MiddlewareHandler<AuthEnv> {
+  const apiKeys = config.http?.api_keys ?? [];
+
+  if (apiKeys.length === 0) {
+    logger.warn({ component: 'auth' }, 'No HTTP API keys configured, the API is accessible without authentication');
+  } else {
+    logger.info({ component: 'auth', keys: apiKeys.map(k => `${k.name} (${k.scope})`) }, 'HTTP API authentication enabled');
+  }
+
+  return async (c, next) => {
+    // Read per request so keys changed by a config reload apply right away
+    const apiKeys = config.http?.api_keys ?? [];
+    if (apiKeys.length === 0) {
+      c.set('apiKey', null);
+      return next();
+    }
+
+    const address = getClientAddress(c);
+    const now = Date.now();
+
+    if (isBlocked(address, now)) {
+      return c.json({ error: 'Too many failed authentication attempts', code: 'rate_limited' }, 429);
+    }
+
+    const token = extractToken(c);
+    const apiKey = token ? findApiKey(token, apiKeys) : null;
+
+    if (!apiKey) {
+      pruneFailures(config, now);
+      const blocked = recordFailure(address, config, now);
+      logger.warn(
+        { component: 'auth', ip: address, method: c.req.method, path: c.req.path, reason: token ? 'invalid_key' : 'missing_key' },
+        'HTTP authentication failed'
+      );
+      if (blocked) {
+        logger.warn(
+          { component: 'auth', ip: address, block_seconds: config.http!.auth_rate_limit.block_seconds },
+          'Blocking address after repeated authentication failures'
+        );
+      }
+      return c.json({ error: 'Unauthorized', code: 'unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    failedAttempts.delete(address);
+    c.set('apiKey', apiKey);
+    return next();
+  };
+}
+
+/**
+ * Whether the request's key may act on a client
+ */
+export function canAccessClient(c: Context<AuthEnv>, clientName: string): boolean {
+  const apiKey = c.get('apiKey');
+  return !apiKey || !apiKey.clients || apiKey.clients.includes(clientName);
+}
+
+/**
+ * Whether the request's key may see every client
+ */
+export function hasUnrestrictedAccess(c: Context<AuthEnv>): boolean {
+  const apiKey = c.get('apiKey');
+  return !apiKey || !apiKey.clients;
+}
+
+/**
+ * Require at least the given scope. On routes with a `:name` parameter the
+ * key must also be allowed to access that client.
+ */
+export function requireScope(scope: ApiKeyScope): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const apiKey = c.get('apiKey');
+    if (!apiKey) {
+      return next();
+    }
+
+    if (SCOPE_LEVELS[apiKey.scope] < SCOPE_LEVELS[scope]) {
+      logger.warn(
+        { component: 'auth', key: apiKey.name, scope: apiKey.scope, required: scope, path: c.req.path },
+        'API key lacks required scope'
+      );
+      return c.json({ error: `API key requires '${scope}' scope`, code: 'forbidden' }, 403);
+    }
+
+    const clientName = c.req.param('name');
+    if (clientName && !canAccessClient(c, clientName)) {
+      logger.warn(
+        { component: 'auth', key: apiKey.name, client: clientName, path: c.req.path },
+        'API key is not allowed to access client'
+      );
+      return c.json({ error: 'API key is not allowed to access this client', code: 'forbidden' }, 403);
+    }
+
+    return next();
+  };
+}
@@ -1,11 +1,28 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { execSync } from 'child_process';
 import { logger } from './logger';
-import { Config, getConfig } from './config';
-import { updateWireGuardConfig } from './wireguard';
+import { Client, Config, getConfig } from './config';
+import { updateWireGuardConfig, derivePublicKey } from './wireguard';
+import {
+  syncRegistryWithConfig,
+  getRegisteredClient,
+  getRegisteredClients,
+  getEnabledClients,
+  registerClient,
+  setClientEnabled,
+  unregisterClient,
+  DisabledReason,
+} from './registry';
+import { assignProxyToClient, restoreProxyForClient } from './proxy';
+import { removeClientTunnel } from './tunnel';
+import { removeClientState } from './state';
+import { acquireLease, ensureLeases, releaseLease } from './ipam';
+import { revokePortalLink } from './portal';
+import { ClientConflictError, ClientNotFoundError, InvalidClientNameError } from './errors';
 
 const WG_BIN = '/usr/bin/wg';
+const CLIENT_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
 
 export async function initializeClients(config: Config): Promise<void> {
   const dataDir = config.data?.dir || './data';
@@ -28,8 +45,22 @@ export async function initializeClients(config: Config): Promise<void> {
     throw new Error('Duplicate client names found');
   }
 
-  // Initialize each client
-  for (const client of config.clients) {
+  if (!config.wireguard.public_endpoint) {
+    logger.warn(
+      { component: 'client', server_ip: config.wireguard.server_ip },
+      'wireguard.public_endpoint not set, client configs will use server_ip as Endpoint'
+    );
+  }
+
+  // Register config clients that are not known yet
+  syncRegistryWithConfig(config);
+
+  // Reuse or allocate addresses, TUN subnets and route tables
+  ensureLeases(getRegisteredClients().map(c => c.name), config);
+
+  // Initialize each client (runtime-created ones included)
+  for (const registered of getRegisteredClients()) {
+    const client = config.clients.find(c => c.name === registered.name) || { name: registered.name };
     await initializeClient(client, config);
   }
 
@@ -38,27 +69,32 @@ export async function initializeClients(config: Config): Promise<void> {
   logger.info({ component: 'client' }, 'All clients initialized');
 }
 
-async function initializeClient(client: { name: string; privateKey?: string; publicKey?: string }, config: Config): Promise<void> {
+async function initializeClient(client: Client, config: Config): Promise<void> {
   const dataDir = config.data?.dir || './data';
   const clientsDir = join(dataDir, 'clients');
   const clientConfigPath = join(clientsDir, `${client.name}.conf`);
 
-  // If config already exists, skip (unless keys are provided)
-  if (existsSync(clientConfigPath) && !client.privateKey) {
-    logger.info({ component: 'client', client: client.name }, 'Client config already exists, skipping');
-    return;
-  }
+  const lease = acquireLease(client.name, config);
+  const existingConfig = existsSync(clientConfigPath) ? readFileSync(clientConfigPath, 'utf-8') : null;
 
-  logger.info({ component: 'client', client: client.name }, 'Initializing client');
+  // Keep the client's keys when regenerating an existing config (unless keys are provided)
+  const existingPrivateKey = existingConfig && !client.privateKey
+    ? existingConfig.match(/PrivateKey\s*=\s*([A-Za-z0-9+/=]+)/)?.[1]
+    : undefined;
 
-  // Generate or use provided keys
+  if (!existingConfig) {
+    logger.info({ component: 'client', client: client.name }, 'Initializing client');
+  }
+
+  // Generate or use provided (or existing) keys
   let clientPrivateKey: string;
-  let clientPublicKey: string;
+  const providedPrivateKey = client.privateKey || existingPrivateKey;
 
-  if (client.privateKey) {
-    clientPrivateKey = client.privateKey;
+  if (providedPrivateKey) {
+    clientPrivateKey = providedPrivateKey;
     try {
-      clientPublicKey = execSync(`${WG_BIN} pubkey`, { input: clientPrivateKey, encoding: 'utf-8' }).trim();
+      // Rejects an invalid key before it ends up in the config
+      derivePublicKey(clientPrivateKey);
     } catch (error) {
       logger.error({ component: 'client', client: client.name, error }, 'Failed to generate public key from provided private key');
       throw error;
@@ -66,9 +102,8 @@ async function initializeClient(client: { name: string; privateKey?: string; pub
   } else {
     try {
       clientPrivateKey = execSync(`${WG_BIN} genkey`, { encoding: 'utf-8' }).trim();
-      clientPublicKey = execSync(`${WG_BIN} pubkey`, { input: clientPrivateKey, encoding: 'utf-8' }).trim();
     } catch (error) {
-      logger.error({ component: 'client', client: client.name, error }, 'Failed to generate client keypair');
+      logger.error({ component: 'client', client: client.name, error }, 'Failed to generate client private key');
       throw error;
     }
   }
@@ -83,50 +118,89 @@ async function initializeClient(client: { name: string; privateKey?: string; pub
   }
 
   const serverPrivateKey = readFileSync(serverKeyPath, 'utf-8').trim();
-  const serverPublicKey = execSync(`${WG_BIN} pubkey`, { input: serverPrivateKey, encoding: 'utf-8' }).trim();
+  const serverPublicKey = derivePublicKey(serverPrivateKey);
+
+  // Client IP comes from the persistent IPAM lease
+  const clientIP = lease.address;
 
-  // Assign client IP (simple sequential assignment starting from .2)
-  const subnetParts = config.wireguard.subnet.split('/');
-  const baseIP = subnetParts[0].split('.');
-  const clientIndex = config.clients.findIndex(c => c.name === client.name);
-  const baseIPLastOctet = parseInt(baseIP[3]);
-  const clientIP = `${baseIP[0]}.${baseIP[1]}.${baseIP[2]}.${baseIPLastOctet + clientIndex + 2}`;
+  // Without a public endpoint, fall back to the tunnel address (only reachable on the server's network)
+  const endpoint = config.wireguard.public_endpoint || config.wireguard.server_ip;
 
   // Generate client config
   const clientConfig = generateClientConfig(
     clientPrivateKey,
     clientIP,
-    config.wireguard.server_ip,
+    endpoint,
     config.wireguard.listen_port,
-    serverPublicKey
+    serverPublicKey,
+    {
+      dns: typeof client.dns === 'string' ? [client.dns] : client.dns,
+      mtu: client.mtu,
+      allowedIPs: client.allowed_ips,
+      persistentKeepalive: client.persistent_keepalive,
+    }
   );
 
+  // Address, endpoint and profile options unchanged, nothing to do
+  if (existingConfig === clientConfig) {
+    logger.info({ component: 'client', client: client.name }, 'Client config already up to date, skipping');
+    return;
+  }
+
   // Write client config
   writeFileSync(clientConfigPath, clientConfig, { mode: 0o600 });
-  logger.info({ component: 'client', client: client.name, path: clientConfigPath }, 'Client config written');
+  logger.info(
+    { component: 'client', client: client.name, path: clientConfigPath },
+    existingConfig ? 'Client config regenerated' : 'Client config written'
+  );
+}
+
+export interface ClientProfileOptions {
+  dns?: string[];
+  mtu?: number;
+  allowedIPs?: string[];
+  persistentKeepalive?: number;
 }
 
 export function generateClientConfig(
   clientPrivateKey: string,
   clientIP: string,
-  serverIP: string,
+  endpointHost: string,
   serverPort: number,
   serverPublicKey: string,
-  dns?: string
+  options: ClientProfileOptions = {}
 ): string {
-  const dnsServer = dns || '1.1.1.1'; // Default to Cloudflare DNS
-  
-  return `[Interface]
+  const dnsServers = options.dns || ['1.1.1.1']; // Default to Cloudflare DNS
+  const allowedIPs = options.allowedIPs || ['0.0.0.0/0'];
+  const keepalive = options.persistentKeepalive ?? 25;
+  // IPv6 literals must be bracketed in Endpoint
+  const endpoint = endpointHost.includes(':') ? `[${endpointHost}]` : endpointHost;
+
+  let configContent = `[Interface]
 PrivateKey = ${clientPrivateKey}
 Address = ${clientIP}/32
-DNS = ${dnsServer}
+DNS = ${dnsServers.join(', ')}
+`;
 
+  if (options.mtu) {
+    configContent += `MTU = ${options.mtu}
+`;
+  }
+
+  configContent += `
 [Peer]
 PublicKey = ${serverPublicKey}
-Endpoint = ${serverIP}:${serverPort}
-AllowedIPs = 0.0.0.0/0
-PersistentKeepalive = 25
+Endpoint = ${endpoint}:${serverPort}
+AllowedIPs = ${allowedIPs.join(', ')}
+`;
+
+  // 0 disables keepalive
+  if (keepalive > 0) {
+    configContent += `PersistentKeepalive = ${keepalive}
 `;
+  }
+
+  return configContent;
 }
 
 export function getClientConfig(clientName: string): string | null {
@@ -142,7 +216,139 @@ export function getClientConfig(clientName: string): string | null {
   return readFileSync(clientConfigPath, 'utf-8');
 }
 
+/**
+ * Names of enabled clients
+ */
 export function getAllClients(): string[] {
+  return getEnabledClients().map(c => c.name);
+}
+
+/**
+ * Create a client at runtime: generate keys and config, add the peer to the
+ * live interface and assign a proxy
+ */
+export async function createClient(name: string): Promise<void> {
   const config = getConfig();
-  return config.clients.map(c => c.name);
+
+  if (!CLIENT_NAME_PATTERN.test(name)) {
+    throw new InvalidClientNameError('Client name may only contain letters, digits, "-" and "_" (max 32 characters)');
+  }
+  if (getRegisteredClient(name)) {
+    throw new ClientConflictError(`Client ${name} already exists`);
+  }
+
+  registerClient(name);
+
+  try {
+    await initializeClient({ name }, config);
+    await updateWireGuardConfig(config);
+    await assignProxyToClient(name, config);
+  } catch (error) {
+    await rollbackCreatedClient(name, config);
+    throw error;
+  }
+
+  logger.info({ component: 'client', client: name }, 'Client created');
+}
+
+/**
+ * Undo a client creation that failed part way. Every step is attempted even
+ * when an earlier one fails, so no half-created client is left behind.
+ */
+async function rollbackCreatedClient(name: string, config: Config): Promise<void> {
+  const dataDir = config.data?.dir || './data';
+  const clientConfigPath = join(dataDir, 'clients', `${name}.conf`);
+
+  const steps: [string, () => unknown][] = [
+    ['remove tunnel', () => removeClientTunnel(name, config)],
+    ['unregister', () => unregisterClient(name)],
+    ['remove peer', () => updateWireGuardConfig(config)],
+    ['remove client config', () => existsSync(clientConfigPath) && unlinkSync(clientConfigPath)],
+    ['remove state', () => removeClientState(name)],
+    ['release lease', () => releaseLease(name)],
+  ];
+
+  for (const [step, undo] of steps) {
+    try {
+      await undo();
+    } catch (error) {
+      logger.error({ component: 'client', client: name, step, error }, 'Failed to roll back client creation');
+    }
+  }
+
+  logger.warn({ component: 'client', client: name }, 'Client creation failed, rolled back');
+}
+
+/**
+ * Disable a client: its peer and tunnel are removed, keys and config are kept
+ */
+export async function disableClient(name: string, reason: DisabledReason = 'admin'): Promise<void> {
+  const config = getConfig();
+  const client = getRegisteredClient(name);
+
+  if (!client) {
+    throw new ClientNotFoundError(name);
+  }
+  if (!client.enabled) {
+    return;
+  }
+
+  await removeClientTunnel(name, config);
+  setClientEnabled(name, false, reason);
+  await updateWireGuardConfig(config);
+
+  logger.info({ component: 'client', client: name }, 'Client disabled');
+}
+
+/**
+ * Re-enable a disabled client with its existing keys
+ */
+export async function enableClient(name: string): Promise<void> {
+  const config = getConfig();
+  const client = getRegisteredClient(name);
+
+  if (!client) {
+    throw new ClientNotFoundError(name);
+  }
+  if (client.enabled) {
+    return;
+  }
+
+  setClientEnabled(name, true);
+  await updateWireGuardConfig(config);
+  await restoreProxyForClient(name, config);
+
+  logger.info({ component: 'client', client: name }, 'Client enabled');
+}
+
+/**
+ * Delete a runtime-created client together with its keys, config and state.
+ * Clients defined in config.yaml must be removed there instead.
+ */
+export async function deleteClient(name: string): Promise<void> {
+  const config = getConfig();
+  const client = getRegisteredClient(name);
+
+  if (!client) {
+    throw new ClientNotFoundError(name);
+  }
+  if (client.source === 'config') {
+    throw new ClientConflictError(`Client ${name} is defined in config.yaml; remove it there or disable it instead`);
+  }
+
+  await removeClientTunnel(name, config);
+  unregisterClient(name);
+  await updateWireGuardConfig(config);
+
+  const dataDir = config.data?.dir || './data';
+  const clientConfigPath = join(dataDir, 'clients', `${name}.conf`);
+  if (existsSync(clientConfigPath)) {
+    unlinkSync(clientConfigPath);
+  }
+
+  await removeClientState(name);
+  releaseLease(name);
+  revokePortalLink(name);
+
+  logger.info({ component: 'client', client: name }, 'Client deleted');
 }
@@ -1,17 +1,169 @@
 import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
 import { parse } from 'yaml';
 import { z } from 'zod';
-import { logger } from './logger';
+import { logger, addRedactedValue } from './logger';
+import { LIFECYCLE_EVENT_TYPES, LifecycleEventType } from './events';
+
+export const PROXY_TYPES = ['socks5', 'socks4', 'http', 'shadowsocks'] as const;
+export type ProxyType = typeof PROXY_TYPES[number];
+
+// URL scheme of each type, as understood by tun2socks
+const PROXY_SCHEMES: Record<string, ProxyType> = {
+  'socks5:': 'socks5',
+  'socks4:': 'socks4',
+  'http:': 'http',
+  'ss:': 'shadowsocks',
+};
+
+// AEAD ciphers supported by tun2socks
+export const SHADOWSOCKS_CIPHERS = [
+  'aes-128-gcm',
+  'aes-192-gcm',
+  'aes-256-gcm',
+  'chacha20-ietf-poly1305',
+  'xchacha20-ietf-poly1305',
+];
+
+/**
+ * Proxy type from the URL scheme, or null for unsupported schemes
+ */
+export function getProxyType(proxyUrl: string): ProxyType | null {
+  const scheme = proxyUrl.match(/^[a-z0-9]+:/i)?.[0].toLowerCase();
+  return (scheme && PROXY_SCHEMES[scheme]) || null;
+}
+
+/**
+ * Shadowsocks cipher and password from ss://method:password@ or the
+ * base64 form ss://BASE64(method:password)@
+ */
+export function parseShadowsocksUserInfo(url: URL): { method: string; password: string } | null {
+  const userInfo = url.password
+    ? `${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`
+    : Buffer.from(decodeURIComponent(url.username), 'base64').toString('utf-8');
+  const separator = userInfo.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+  return { method: userInfo.slice(0, separator).toLowerCase(), password: userInfo.slice(separator + 1) };
+}
+
+/**
+ * Check a proxy URL against the rules of its type. Returns an error message
+ * or null when the URL is valid.
+ */
+export function validateProxyUrl(proxyUrl: string): string | null {
+  if (/^https:/i.test(proxyUrl)) {
+    return 'HTTPS proxies are not supported by tun2socks, use http:// (CONNECT over plain TCP) or a local TLS client, see README';
+  }
+
+  const type = getProxyType(proxyUrl);
+  if (!type) {
+    return 'Must be a socks5://, socks4://, http:// or ss:// URL';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(proxyUrl);
+  } catch {
+    return 'Must be a valid URL';
+  }
+
+  if (!url.hostname || !/^\d+$/.test(url.port)) {
+    return 'Must include a host and a port';
+  }
+  if ((url.pathname && url.pathname !== '/') || url.search || url.hash) {
+    return 'Must not include a path, query or fragment';
+  }
+
+  switch (type) {
+    case 'socks4':
+      if (url.password) {
+        return 'SOCKS4 supports a user ID only, not a password';
+      }
+      break;
+    case 'http':
+      if (url.username && !url.password) {
+        return 'HTTP proxy credentials must include a password';
+      }
+      break;
+    case 'shadowsocks': {
+      const userInfo = url.username ? parseShadowsocksUserInfo(url) : null;
+      if (!userInfo || !userInfo.password) {
+        return 'Shadowsocks URLs must include a cipher and password (ss://method:password@host:port)';
+      }
+      if (!SHADOWSOCKS_CIPHERS.includes(userInfo.method)) {
+        return `Unsupported Shadowsocks cipher, use one of: ${SHADOWSOCKS_CIPHERS.join(', ')}`;
+      }
+      break;
+    }
+  }
+
+  return null;
+}
+
+// Proxy IDs show up in state, logs, the API and bot messages, so they must
+// not be able to carry credentials
+const PROXY_ID_PATTERN = /^[^\s@]+$/;
+
+/**
+ * Stable, non-secret ID for a proxy URL: scheme, host and port, plus a short
+ * hash of the username so gateway proxies that pick the exit by username get
+ * distinct IDs. Passwords never affect the ID, so rotating a password keeps
+ * the proxy's health and usage history.
+ */
+export function getProxyId(proxyUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(proxyUrl);
+  } catch {
+    return proxyUrl.replace(/\/\/[^/]*@/, '//');
+  }
+
+  const id = `${url.protocol}//${url.host}`;
+  // The Shadowsocks user info is the cipher and password, not a user
+  if (!url.username || getProxyType(proxyUrl) === 'shadowsocks') {
+    return id;
+  }
+  const userHash = createHash('sha256').update(decodeURIComponent(url.username)).digest('hex').slice(0, 8);
+  return `${id}#${userHash}`;
+}
 
 const ProxySchema = z.object({
-  url: z.string().regex(/^socks5:\/\/.+:\d+$/, 'Must be a valid SOCKS5 URL'),
+  id: z.string().regex(PROXY_ID_PATTERN, 'Must not contain whitespace or @').optional(), // Derived from the URL when omitted
+  url: z.string().superRefine((url, ctx) => {
+    const error = validateProxyUrl(url);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  }),
   location: z.string().min(1, 'Location is required'),
-});
+}).transform(proxy => ({ ...proxy, id: proxy.id ?? getProxyId(proxy.url) }));
+
+const ProxySourceSchema = z.object({
+  name: z.string().min(1, 'Source name is required'),
+  file: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  format: z.enum(['plain', 'csv', 'json']).default('plain'),
+  type: z.enum(PROXY_TYPES).default('socks5'), // For entries given as host and port
+  location: z.string().min(1).optional(), // For entries without their own location
+  location_map: z.record(z.string().min(1)).optional(), // Rename the list's locations, e.g. "United States": US
+  refresh_seconds: z.number().positive().default(3600),
+  timeout_ms: z.number().int().positive().default(10000), // URL sources only
+  headers: z.record(z.string()).optional(), // URL sources only, e.g. Authorization
+}).refine(
+  source => !source.file !== !source.url,
+  { message: 'Exactly one of file or url is required', path: ['file'] }
+);
 
 const ClientSchema = z.object({
   name: z.string().min(1, 'Client name is required'),
   privateKey: z.string().optional(),
   publicKey: z.string().optional(),
+  dns: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+  mtu: z.number().int().min(576).max(9000).optional(),
+  allowed_ips: z.array(z.string().regex(/^[0-9a-fA-F:.]+\/\d+$/, 'Must be a valid CIDR notation')).min(1).optional(),
+  persistent_keepalive: z.number().int().min(0).max(65535).optional(),
 });
 
 const WireGuardConfigSchema = z.object({
@@ -19,6 +171,7 @@ const WireGuardConfigSchema = z.object({
   subnet: z.string().regex(/^\d+\.\d+\.\d+\.\d+\/\d+$/, 'Must be a valid CIDR notation'),
   listen_port: z.number().int().min(1).max(65535),
   server_ip: z.string().regex(/^\d+\.\d+\.\d+\.\d+$/, 'Must be a valid IP address'),
+  public_endpoint: z.string().min(1).optional(),
 });
 
 const DataConfigSchema = z.object({
@@ -28,6 +181,10 @@ const DataConfigSchema = z.object({
 const RotationConfigSchema = z.object({
   interval: z.number().positive(),
   interval_type: z.enum(['seconds', 'second', 'minutes', 'minute', 'hours', 'hour', 'days', 'day']),
+  mode: z.enum(['restart', 'make_before_break']).default('restart'),
+  drain_seconds: z.number().nonnegative().default(0),
+  verify_url: z.string().url().default('http://www.gstatic.com/generate_204'),
+  verify_timeout_ms: z.number().int().positive().default(10000),
 });
 
 const LoggingConfigSchema = z.object({
@@ -38,33 +195,119 @@ const LoggingConfigSchema = z.object({
   max_age_days: z.number().positive().optional(),
 });
 
+const HealthCheckConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  interval_seconds: z.number().positive().default(60),
+  timeout_ms: z.number().int().positive().default(5000),
+  target_host: z.string().min(1).default('1.1.1.1'),
+  target_port: z.number().int().min(1).max(65535).default(443),
+  unhealthy_threshold: z.number().int().positive().default(3),
+  healthy_threshold: z.number().int().positive().default(1),
+});
+
+const ApiKeySchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16, 'API keys must be at least 16 characters'),
+  scope: z.enum(['read', 'rotate', 'admin']),
+  clients: z.array(z.string()).optional(), // Restrict the key to these clients
+});
+
+const AuthRateLimitSchema = z.object({
+  max_failures: z.number().int().positive().default(10),
+  window_seconds: z.number().int().positive().default(300),
+  block_seconds: z.number().int().positive().default(900),
+});
+
 const HttpConfigSchema = z.object({
   enabled: z.boolean().default(false),
   port: z.number().int().min(1).max(65535).default(8000),
   host: z.string().default('0.0.0.0'),
+  api_keys: z.array(ApiKeySchema).default([]),
+  auth_rate_limit: AuthRateLimitSchema.default({}),
+});
+
+const WebhookSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16, 'Webhook secrets must be at least 16 characters'),
+  events: z.array(z.enum(LIFECYCLE_EVENT_TYPES as [LifecycleEventType, ...LifecycleEventType[]]))
+    .min(1)
+    .default(['proxy_rotated', 'tunnel_restart_given_up', 'proxy_unhealthy']),
+  timeout_ms: z.number().int().positive().default(5000),
+  max_attempts: z.number().int().positive().default(5),
+  retry_delay_ms: z.number().int().positive().default(2000), // Doubles after every failed attempt
+});
+
+const PortalConfigSchema = z.object({
+  base_url: z.string().url().optional(), // Public URL of the HTTP server used in portal links
+  allowed_locations: z.array(z.string()).optional(), // Locations users may switch to; all when omitted
+});
+
+const ReloadConfigSchema = z.object({
+  watch: z.boolean().default(false), // Also reload when the file changes, not only on SIGHUP
+  interval_seconds: z.number().positive().default(5), // How often the file is checked when watching
+});
+
+const TelegramUserSchema = z.object({
+  id: z.number().int().positive(),
+  role: z.enum(['viewer', 'operator', 'admin']),
+  clients: z.array(z.string()).optional(), // Restrict the user to these clients; non-admins without it get none
+});
+
+const TelegramAlertsSchema = z.object({
+  tunnel_failure: z.boolean().default(true), // tun2socks gave up restarting
+  proxy_health: z.boolean().default(true), // Proxy marked unhealthy by health checks or failover
+  wireguard: z.boolean().default(true), // WireGuard interface down
 });
 
 const TelegramConfigSchema = z.object({
   bot_token: z.string().min(1, 'Bot token is required'),
-  admin_user_ids: z.array(z.number().int().positive()).min(1, 'At least one admin user ID is required'),
-});
+  admin_user_ids: z.array(z.number().int().positive()).default([]), // Unrestricted admins
+  users: z.array(TelegramUserSchema).default([]),
+  alerts: TelegramAlertsSchema.default({}),
+}).refine(
+  telegram => telegram.admin_user_ids.length > 0 || telegram.users.some(u => u.role === 'admin'),
+  { message: 'At least one admin user is required', path: ['admin_user_ids'] }
+);
 
 const ConfigSchema = z.object({
   wireguard: WireGuardConfigSchema,
   data: DataConfigSchema.optional(),
   rotation: RotationConfigSchema.optional(),
-  proxies: z.array(ProxySchema).min(1, 'At least one proxy is required'),
+  proxies: z.array(ProxySchema).default([]),
+  proxy_sources: z.array(ProxySourceSchema).default([]),
   logging: LoggingConfigSchema.optional(),
+  health_check: HealthCheckConfigSchema.optional(),
   http: HttpConfigSchema.optional(),
   telegram: TelegramConfigSchema.optional(),
-  clients: z.array(ClientSchema).min(1, 'At least one client is required'),
-});
+  webhooks: z.array(WebhookSchema).default([]),
+  portal: PortalConfigSchema.optional(),
+  reload: ReloadConfigSchema.optional(),
+  clients: z.array(ClientSchema).default([]),
+}).refine(
+  config => config.proxies.length > 0 || config.proxy_sources.length > 0,
+  { message: 'At least one proxy or proxy source is required', path: ['proxies'] }
+);
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type Proxy = z.infer<typeof ProxySchema>;
+export type ProxySource = z.infer<typeof ProxySourceSchema>;
 export type Client = z.infer<typeof ClientSchema>;
 export type WireGuardConfig = z.infer<typeof WireGuardConfigSchema>;
 export type RotationConfig = z.infer<typeof RotationConfigSchema>;
+export type HealthCheckConfig = z.infer<typeof HealthCheckConfigSchema>;
+export type HttpConfig = z.infer<typeof HttpConfigSchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type ApiKeyScope = ApiKey['scope'];
+export type Webhook = z.infer<typeof WebhookSchema>;
+export type TelegramConfig = z.infer<typeof TelegramConfigSchema>;
+export type TelegramRole = z.infer<typeof TelegramUserSchema>['role'];
+
+/**
+ * Configured proxy (including proxies from sources) by its ID
+ */
+export function findProxy(config: Config, proxyId: string): Proxy | undefined {
+  return config.proxies.find(p => p.id === proxyId);
+}
 
 /**
  * Convert rotation config to milliseconds
@@ -96,19 +339,136 @@ export function getRotationIntervalMs(rotationConfig?: RotationConfig): number {
   return 7 * 24 * 60 * 60 * 1000;
 }
 
+/**
+ * Get health check settings, falling back to defaults when the section is omitted
+ */
+export function getHealthCheckConfig(config: Config): HealthCheckConfig {
+  return config.health_check ?? HealthCheckConfigSchema.parse({});
+}
+
 let cachedConfig: Config | null = null;
+let configFilePath: string | null = null;
 
-export async function loadConfig(configPath?: string): Promise<Config> {
-  if (cachedConfig) {
-    return cachedConfig;
+// ${VAR} or ${VAR:-default}; $${VAR} is kept literally as ${VAR}
+const ENV_REFERENCE = /\$(\$)?\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const FILE_REFERENCE_SUFFIX = '_file';
+const SECRET_KEY = /(token|secret|password|pass|key)$/i;
+
+type ConfigPath = (string | number)[];
+
+function isSecretField(path: ConfigPath): boolean {
+  const key = path[path.length - 1];
+  return path.includes('headers') || (typeof key === 'string' && SECRET_KEY.test(key));
+}
+
+/**
+ * Mask the password of a URL in logs, or the user part when it has no
+ * password (Shadowsocks base64 credentials, SOCKS4 user IDs)
+ */
+function redactUrlCredentials(value: string): void {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return;
   }
+  const credentials = url.password || url.username;
+  if (credentials) {
+    addRedactedValue(credentials);
+    addRedactedValue(decodeURIComponent(credentials));
+  }
+}
 
-  const path = configPath || process.env.CONFIG_PATH || './config.yaml';
+function interpolateEnv(value: string, path: ConfigPath, errors: string[]): string {
+  let interpolated = false;
+  const result = value.replace(ENV_REFERENCE, (match, escaped: string | undefined, name: string, fallback: string | undefined) => {
+    if (escaped) {
+      return match.slice(1);
+    }
+    const resolved = process.env[name] ?? fallback;
+    if (resolved === undefined) {
+      errors.push(`${path.join('.')}: environment variable ${name} is not set`);
+      return match;
+    }
+    interpolated = true;
+    if (isSecretField(path)) {
+      addRedactedValue(resolved);
+    }
+    return resolved;
+  });
+
+  // Credentials of an interpolated URL are secret, the rest of it is not
+  if (interpolated && path[path.length - 1] === 'url') {
+    redactUrlCredentials(result);
+  }
+  return result;
+}
+
+/**
+ * Resolve ${VAR} interpolation in every string and <key>_file references,
+ * which set <key> to the trimmed contents of a file. Everything read from
+ * files and environment values used in secret fields are masked in logs.
+ */
+function resolveReferences(value: unknown, path: ConfigPath, errors: string[]): unknown {
+  if (typeof value === 'string') {
+    return interpolateEnv(value, path, errors);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveReferences(item, [...path, index], errors));
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const resolved: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (!key.endsWith(FILE_REFERENCE_SUFFIX) || key === FILE_REFERENCE_SUFFIX) {
+      resolved[key] = resolveReferences(item, [...path, key], errors);
+      continue;
+    }
+
+    const target = key.slice(0, -FILE_REFERENCE_SUFFIX.length);
+    const location = [...path, key].join('.');
+    if (target in (value as Record<string, unknown>)) {
+      errors.push(`${location}: cannot be combined with ${target}`);
+      continue;
+    }
+    if (typeof item !== 'string') {
+      errors.push(`${location}: must be a file path`);
+      continue;
+    }
+
+    const filePath = interpolateEnv(item, [...path, key], errors);
+    try {
+      const content = readFileSync(filePath, 'utf-8').trim();
+      if (!content) {
+        errors.push(`${location}: ${filePath} is empty`);
+        continue;
+      }
+      addRedactedValue(content);
+      redactUrlCredentials(content);
+      resolved[target] = content;
+    } catch (error) {
+      const reason = (error as NodeJS.ErrnoException).code || (error instanceof Error ? error.message : String(error));
+      errors.push(`${location}: cannot read ${filePath} (${reason})`);
+    }
+  }
+  return resolved;
+}
 
+/**
+ * Read and validate a config file without touching the loaded config
+ */
+export function readConfigFile(path: string): Config {
   try {
-    logger.info({ component: 'config', path }, 'Loading configuration file');
     const fileContent = readFileSync(path, 'utf-8');
-    const rawConfig = parse(fileContent);
+    const referenceErrors: string[] = [];
+    const rawConfig = resolveReferences(parse(fileContent), [], referenceErrors);
+    if (referenceErrors.length > 0) {
+      throw new Error(`Configuration references could not be resolved: ${referenceErrors.join(', ')}`);
+    }
 
     // Validate with Zod
     const config = ConfigSchema.parse(rawConfig);
@@ -120,10 +480,33 @@ export async function loadConfig(configPath?: string): Promise<Config> {
       throw new Error('Duplicate client names found');
     }
 
-    // Logger will be reinitialized in main() with config settings
+    // Validate unique proxy IDs
+    const proxyIds = config.proxies.map(p => p.id);
+    const duplicateIds = [...new Set(proxyIds.filter((id, index) => proxyIds.indexOf(id) !== index))];
+    if (duplicateIds.length > 0) {
+      throw new Error(`Duplicate proxy IDs found: ${duplicateIds.join(', ')} (set an explicit id on proxies that share a host, port and user)`);
+    }
 
-    cachedConfig = config;
-    logger.info({ component: 'config' }, 'Configuration loaded and validated');
+    // Validate unique proxy source names
+    const sourceNames = config.proxy_sources.map(s => s.name);
+    if (new Set(sourceNames).size !== sourceNames.length) {
+      throw new Error('Duplicate proxy source names found');
+    }
+
+    // Validate unique Telegram users
+    const telegramUserIds = config.telegram?.users.map(u => u.id) ?? [];
+    if (new Set(telegramUserIds).size !== telegramUserIds.length) {
+      throw new Error('Duplicate Telegram user IDs found');
+    }
+
+    // Validate unique API key names and values
+    const apiKeys = config.http?.api_keys ?? [];
+    if (new Set(apiKeys.map(k => k.name)).size !== apiKeys.length) {
+      throw new Error('Duplicate API key names found');
+    }
+    if (new Set(apiKeys.map(k => k.key)).size !== apiKeys.length) {
+      throw new Error('Duplicate API key values found');
+    }
 
     return config;
   } catch (error) {
@@ -136,6 +519,47 @@ export async function loadConfig(configPath?: string): Promise<Config> {
   }
 }
 
+export async function loadConfig(configPath?: string): Promise<Config> {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const path = configPath || process.env.CONFIG_PATH || './config.yaml';
+
+  logger.info({ component: 'config', path }, 'Loading configuration file');
+  const config = readConfigFile(path);
+
+  // Logger will be reinitialized in main() with config settings
+
+  cachedConfig = config;
+  configFilePath = path;
+  logger.info({ component: 'config' }, 'Configuration loaded and validated');
+
+  return config;
+}
+
+/**
+ * Path of the loaded config file
+ */
+export function getConfigPath(): string {
+  if (!configFilePath) {
+    throw new Error('Config not loaded. Call loadConfig() first.');
+  }
+  return configFilePath;
+}
+
+/**
+ * Swap in a reloaded config. The loaded object is updated in place so code
+ * holding a reference to it sees the new settings.
+ */
+export function replaceConfig(next: Config): void {
+  const config = getConfig();
+  for (const key of Object.keys(config) as (keyof Config)[]) {
+    delete config[key];
+  }
+  Object.assign(config, next);
+}
+
 export function getConfig(): Config {
   if (!cachedConfig) {
     throw new Error('Config not loaded. Call loadConfig() first.');
@@ -0,0 +1,417 @@
+import { Hono } from 'hono';
+
+// The dashboard is a static page that talks to /api/v1 with the operator's
+// API key. Assets are inlined here so the bundled build needs no extra files
+// and the browser never loads anything from outside this server.
+
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "script-src 'self'",
+  "style-src 'self'",
+  "img-src 'self' blob:",
+  "connect-src 'self'",
+  "form-action 'none'",
+  "frame-ancestors 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>WireGuard SOCKS5 Proxy</title>
+  <link rel="stylesheet" href="/dashboard/style.css">
+</head>
+<body>
+  <header>
+    <h1>WireGuard SOCKS5 Proxy</h1>
+    <div class="header-actions">
+      <span id="wg-status" class="badge">…</span>
+      <button id="refresh" type="button">Refresh</button>
+      <button id="logout" type="button" hidden>Forget key</button>
+    </div>
+  </header>
+
+  <form id="login" hidden>
+    <label for="api-key">API key</label>
+    <input id="api-key" type="password" autocomplete="off" required>
+    <button type="submit">Sign in</button>
+  </form>
+
+  <p id="message" role="status" hidden></p>
+
+  <main id="main" hidden>
+    <table>
+      <thead>
+        <tr>
+          <th>Client</th>
+          <th>Peer</th>
+          <th>Location</th>
+          <th>Proxy</th>
+          <th>Last rotation</th>
+          <th>Switch location</th>
+        </tr>
+      </thead>
+      <tbody id="clients"></tbody>
+    </table>
+
+    <section id="details" hidden>
+      <h2 id="details-title"></h2>
+      <div class="details-body">
+        <figure>
+          <img id="qr" alt="Client configuration QR code">
+          <figcaption>Scan with the WireGuard app</figcaption>
+        </figure>
+        <div class="history">
+          <h3>Recent rotations</h3>
+          <table>
+            <thead>
+              <tr><th>Time</th><th>From</th><th>To</th><th>Reason</th></tr>
+            </thead>
+            <tbody id="history"></tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  </main>
+
+  <script src="/dashboard/app.js"></script>
+</body>
+</html>
+`;
+
+const DASHBOARD_CSS = `* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font: 14px/1.4 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  color: #1f2328;
+  background: #f6f8fa;
+}
+header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 12px 24px;
+  background: #24292f;
+  color: #fff;
+}
+h1 { font-size: 18px; margin: 0; }
+h2 { font-size: 16px; margin: 0 0 12px; }
+h3 { font-size: 14px; margin: 0 0 8px; }
+.header-actions { display: flex; gap: 8px; align-items: center; }
+main, #login, #message { margin: 24px; }
+#login { display: flex; gap: 8px; align-items: center; }
+#login[hidden], main[hidden], #message[hidden], section[hidden] { display: none; }
+#message { padding: 8px 12px; border-radius: 6px; background: #ddf4ff; }
+#message.error { background: #ffebe9; }
+table { width: 100%; border-collapse: collapse; background: #fff; }
+th, td { padding: 8px 12px; text-align: left; border-bottom: 1px solid #d0d7de; }
+th { background: #f6f8fa; font-weight: 600; }
+tbody tr.client { cursor: pointer; }
+tbody tr.client:hover, tbody tr.selected { background: #f3f4f6; }
+tr.disabled { color: #8c959f; }
+code { font-size: 12px; }
+button, select, input {
+  font: inherit;
+  padding: 4px 10px;
+  border: 1px solid #d0d7de;
+  border-radius: 6px;
+  background: #fff;
+}
+button { cursor: pointer; }
+button:disabled { cursor: default; opacity: 0.6; }
+.badge { padding: 2px 8px; border-radius: 10px; background: #57606a; font-size: 12px; }
+.badge.up { background: #1a7f37; }
+.badge.down { background: #cf222e; }
+.dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 6px; background: #8c959f; }
+.dot.online { background: #1a7f37; }
+.switch { display: flex; gap: 6px; }
+#details { margin-top: 24px; padding: 16px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+.details-body { display: flex; gap: 24px; align-items: flex-start; flex-wrap: wrap; }
+figure { margin: 0; text-align: center; }
+#qr { width: 220px; height: 220px; image-rendering: pixelated; }
+figcaption { color: #57606a; font-size: 12px; }
+.history { flex: 1; min-width: 320px; }
+`;
+
+// Plain ES2017 without template literals, so it can live inside this string
+const DASHBOARD_JS = `(function () {
+  'use strict';
+
+  var API = '/api/v1';
+  var KEY_STORAGE = 'wgproxy_api_key';
+  var REFRESH_MS = 15000;
+  var HISTORY_LIMIT = 20;
+
+  var locations = [];
+  var selected = null;
+  var qrUrl = null;
+
+  function $(id) {
+    return document.getElementById(id);
+  }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (name) {
+      if (name === 'className') {
+        node.className = attrs[name];
+      } else if (name === 'text') {
+        node.textContent = attrs[name];
+      } else {
+        node.setAttribute(name, attrs[name]);
+      }
+    });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function showMessage(text, isError) {
+    var message = $('message');
+    message.textContent = text;
+    message.className = isError ? 'error' : '';
+    message.hidden = !text;
+  }
+
+  function formatTime(value) {
+    return value ? new Date(value).toLocaleString() : '—';
+  }
+
+  function showLogin() {
+    $('login').hidden = false;
+    $('main').hidden = true;
+    $('logout').hidden = true;
+    $('api-key').focus();
+  }
+
+  async function request(path, options) {
+    options = options || {};
+    var headers = {};
+    var key = sessionStorage.getItem(KEY_STORAGE);
+    if (key) {
+      headers['Authorization'] = 'Bearer ' + key;
+    }
+    if (options.body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    var response = await fetch(API + path, {
+      method: options.method || 'GET',
+      headers: headers,
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    });
+
+    if (response.status === 401) {
+      sessionStorage.removeItem(KEY_STORAGE);
+      showLogin();
+      throw new Error('Please sign in with an API key');
+    }
+    if (!response.ok) {
+      var body = await response.json().catch(function () { return {}; });
+      throw new Error(body.error || 'Request failed with HTTP ' + response.status);
+    }
+    return response;
+  }
+
+  function renderSwitch(client) {
+    var select = el('select', { 'aria-label': 'Location for ' + client.name });
+    locations.forEach(function (location) {
+      var option = el('option', { value: location.location, text: location.location });
+      if (client.proxy && client.proxy.location === location.location) {
+        option.selected = true;
+      }
+      select.appendChild(option);
+    });
+
+    var button = el('button', { type: 'button', text: 'Switch' });
+    if (!client.enabled) {
+      select.disabled = true;
+      button.disabled = true;
+    }
+    button.addEventListener('click', function (event) {
+      event.stopPropagation();
+      switchLocation(client.name, select.value, button);
+    });
+    select.addEventListener('click', function (event) {
+      event.stopPropagation();
+    });
+
+    return el('div', { className: 'switch' }, [select, button]);
+  }
+
+  function renderClients(clients, peers) {
+    var tbody = $('clients');
+    tbody.textContent = '';
+
+    if (clients.length === 0) {
+      tbody.appendChild(el('tr', {}, [el('td', { colspan: '6', text: 'No clients.' })]));
+      return;
+    }
+
+    clients.forEach(function (client) {
+      var peer = peers[client.name];
+      var online = Boolean(peer && peer.online);
+      var peerLabel = !client.enabled ? 'disabled' : online ? 'online' : peer && peer.latest_handshake ? 'offline' : 'never connected';
+
+      var row = el('tr', { className: 'client' + (client.enabled ? '' : ' disabled') + (client.name === selected ? ' selected' : '') }, [
+        el('td', {}, [el('strong', { text: client.name })]),
+        el('td', {}, [el('span', { className: 'dot' + (online ? ' online' : '') }), peerLabel]),
+        el('td', { text: client.proxy ? client.proxy.location : '—' }),
+        el('td', {}, [el('code', { text: client.proxy ? client.proxy.id : '—' })]),
+        el('td', { text: formatTime(client.last_rotation) }),
+        el('td', {}, [renderSwitch(client)]),
+      ]);
+      row.addEventListener('click', function () {
+        selectClient(client.name);
+      });
+      tbody.appendChild(row);
+    });
+  }
+
+  async function loadDetails(name) {
+    var details = await (await request('/clients/' + encodeURIComponent(name))).json();
+
+    $('details-title').textContent = name;
+    var tbody = $('history');
+    tbody.textContent = '';
+    var history = details.rotation_history.slice(-HISTORY_LIMIT).reverse();
+    if (history.length === 0) {
+      tbody.appendChild(el('tr', {}, [el('td', { colspan: '4', text: 'No rotations yet.' })]));
+    }
+    history.forEach(function (entry) {
+      tbody.appendChild(el('tr', {}, [
+        el('td', { text: formatTime(entry.timestamp) }),
+        el('td', { text: entry.old_location || '—' }),
+        el('td', { text: entry.new_location }),
+        el('td', { text: entry.reason || '—' }),
+      ]));
+    });
+
+    var qr = await request('/clients/' + encodeURIComponent(name) + '/qr');
+    if (qrUrl) {
+      URL.revokeObjectURL(qrUrl);
+    }
+    qrUrl = URL.createObjectURL(await qr.blob());
+    $('qr').src = qrUrl;
+    $('details').hidden = false;
+  }
+
+  async function selectClient(name) {
+    selected = name;
+    try {
+      await loadDetails(name);
+      await refresh();
+    } catch (error) {
+      showMessage(error.message, true);
+    }
+  }
+
+  async function switchLocation(name, location, button) {
+    button.disabled = true;
+    showMessage('Switching ' + name + ' to ' + location + '…');
+    try {
+      var client = await (await request('/clients/' + encodeURIComponent(name) + '/rotate', {
+        method: 'POST',
+        body: { location: location },
+      })).json();
+      showMessage(name + ' is now using a proxy in ' + (client.proxy ? client.proxy.location : location) + '.');
+      await refresh();
+      if (selected === name) {
+        await loadDetails(name);
+      }
+    } catch (error) {
+      showMessage(error.message, true);
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  async function refresh() {
+    var results = await Promise.all([
+      request('/clients').then(function (response) { return response.json(); }),
+      request('/wireguard').then(function (response) { return response.json(); }),
+      request('/locations').then(function (response) { return response.json(); }),
+    ]);
+
+    var peers = {};
+    results[1].peers.forEach(function (peer) {
+      if (peer.client) {
+        peers[peer.client] = peer;
+      }
+    });
+    locations = results[2].locations;
+
+    var status = $('wg-status');
+    status.textContent = results[1].interface + ' ' + results[1].status;
+    status.className = 'badge ' + results[1].status;
+
+    $('login').hidden = true;
+    $('main').hidden = false;
+    $('logout').hidden = !sessionStorage.getItem(KEY_STORAGE);
+    renderClients(results[0].clients, peers);
+  }
+
+  function refreshQuietly() {
+    if (!$('main').hidden && !document.hidden) {
+      refresh().catch(function (error) {
+        showMessage(error.message, true);
+      });
+    }
+  }
+
+  $('login').addEventListener('submit', function (event) {
+    event.preventDefault();
+    sessionStorage.setItem(KEY_STORAGE, $('api-key').value.trim());
+    $('api-key').value = '';
+    showMessage('');
+    refresh().catch(function (error) {
+      showMessage(error.message, true);
+    });
+  });
+
+  $('logout').addEventListener('click', function () {
+    sessionStorage.removeItem(KEY_STORAGE);
+    selected = null;
+    $('details').hidden = true;
+    showLogin();
+  });
+
+  $('refresh').addEventListener('click', function () {
+    showMessage('');
+    refresh().catch(function (error) {
+      showMessage(error.message, true);
+    });
+  });
+
+  setInterval(refreshQuietly, REFRESH_MS);
+  refresh().catch(function (error) {
+    showMessage(error.message, true);
+  });
+})();
+`;
+
+/**
+ * Static dashboard assets. Served without authentication; every data request
+ * the page makes goes through the authenticated /api/v1 routes.
+ */
+export function createDashboard(): Hono {
+  const dashboard = new Hono();
+
+  dashboard.use('*', async (c, next) => {
+    await next();
+    c.header('Content-Security-Policy', CONTENT_SECURITY_POLICY);
+    c.header('X-Content-Type-Options', 'nosniff');
+    c.header('Cache-Control', 'no-cache');
+  });
+
+  dashboard.get('/', (c) => c.html(DASHBOARD_HTML));
+
+  dashboard.get('/app.js', (c) => c.body(DASHBOARD_JS, 200, { 'Content-Type': 'text/javascript; charset=utf-8' }));
+
+  dashboard.get('/style.css', (c) => c.body(DASHBOARD_CSS, 200, { 'Content-Type': 'text/css; charset=utf-8' }));
+
+  return dashboard;
+}
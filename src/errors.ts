@@ -0,0 +1,30 @@
+/**
+ * Client lifecycle errors the caller can act on. The HTTP API reports them
+ * with their message; any other error is an internal failure and only gets
+ * a generic response.
+ */
+
+export class ClientNotFoundError extends Error {
+  constructor(clientName: string) {
+    super(`Client ${clientName} not found`);
+    this.name = 'ClientNotFoundError';
+  }
+}
+
+/**
+ * The request conflicts with the client's current state, e.g. it already
+ * exists, is disabled or has no proxy available
+ */
+export class ClientConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClientConflictError';
+  }
+}
+
+export class InvalidClientNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidClientNameError';
+  }
+}
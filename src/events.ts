@@ -0,0 +1,100 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+
+const RECENT_EVENTS_LIMIT = 200; // Kept for SSE clients resuming with Last-Event-ID
+
+export type RotationTrigger = 'automatic' | 'manual' | 'failover';
+
+// Proxies are referred to by their ID, never by URL, since events reach
+// webhooks, SSE clients and alerts
+export type LifecycleEvent =
+  | { type: 'proxy_assigned'; client: string; proxy: string; location: string; restored: boolean }
+  | {
+      type: 'proxy_rotated';
+      client: string;
+      old_proxy: string;
+      new_proxy: string;
+      old_location: string;
+      new_location: string;
+      trigger: RotationTrigger;
+    }
+  | { type: 'tunnel_started'; client: string; proxy: string; interface: string; restart_attempt: number }
+  | { type: 'tunnel_exited'; client: string; interface: string; code: number | null; signal: string | null; expected: boolean }
+  | { type: 'tunnel_restart_scheduled'; client: string; attempt: number; max_attempts: number; delay_ms: number }
+  | { type: 'tunnel_restart_given_up'; client: string; proxy: string; attempts: number }
+  | { type: 'peer_online'; client: string; endpoint: string | null; latest_handshake: string | null }
+  | { type: 'peer_offline'; client: string; latest_handshake: string | null }
+  | { type: 'proxy_unhealthy'; proxy: string; location: string; error: string }
+  | { type: 'proxy_recovered'; proxy: string; location: string; latency_ms: number | null }
+  | { type: 'wireguard_down'; interface: string; error: string | null }
+  | { type: 'wireguard_up'; interface: string };
+
+export type LifecycleEventType = LifecycleEvent['type'];
+
+export type EmittedEvent = LifecycleEvent & {
+  id: number;
+  timestamp: string;
+};
+
+export const LIFECYCLE_EVENT_TYPES: LifecycleEventType[] = [
+  'proxy_assigned',
+  'proxy_rotated',
+  'tunnel_started',
+  'tunnel_exited',
+  'tunnel_restart_scheduled',
+  'tunnel_restart_given_up',
+  'peer_online',
+  'peer_offline',
+  'proxy_unhealthy',
+  'proxy_recovered',
+  'wireguard_down',
+  'wireguard_up',
+];
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per SSE connection
+
+const recentEvents: EmittedEvent[] = [];
+let nextEventId = 1;
+
+/**
+ * Publish a lifecycle event to all subscribers. Listener errors are logged
+ * and never propagate back into the code that emitted the event.
+ */
+export function emitEvent(event: LifecycleEvent): void {
+  const emitted: EmittedEvent = {
+    ...event,
+    id: nextEventId++,
+    timestamp: new Date().toISOString(),
+  };
+
+  recentEvents.push(emitted);
+  if (recentEvents.length > RECENT_EVENTS_LIMIT) {
+    recentEvents.shift();
+  }
+
+  for (const listener of emitter.listeners('event')) {
+    try {
+      (listener as (event: EmittedEvent) => void)(emitted);
+    } catch (error) {
+      logger.error({ component: 'events', error, event: emitted.type }, 'Event listener failed');
+    }
+  }
+}
+
+/**
+ * Subscribe to all lifecycle events. Returns an unsubscribe function.
+ */
+export function subscribeEvents(listener: (event: EmittedEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+/**
+ * Buffered events with an id greater than the given one, oldest first
+ */
+export function getEventsSince(lastEventId: number): EmittedEvent[] {
+  return recentEvents.filter(event => event.id > lastEventId);
+}
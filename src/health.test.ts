@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { AddressInfo, Server, Socket, createServer } from 'net';
+import { checkSocks5Proxy } from './health';
+
+const TARGET = { host: 'example.com', port: 443 };
+
+interface Socks5Options {
+  credentials?: { username: string; password: string };
+  silent?: boolean; // Accept connections but never answer
+}
+
+/**
+ * Minimal SOCKS5 server: negotiates no-auth or username/password and grants
+ * every CONNECT without opening an outbound connection
+ */
+function startSocks5Server(options: Socks5Options = {}): Promise<Server> {
+  const server = createServer((socket: Socket) => {
+    if (options.silent) {
+      return;
+    }
+
+    let stage = 'greeting';
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      if (stage === 'greeting') {
+        if (buffer.length < 2 || buffer.length < 2 + buffer[1]) {
+          return;
+        }
+        const methods = [...buffer.subarray(2, 2 + buffer[1])];
+        buffer = buffer.subarray(2 + buffer[1]);
+        const method = options.credentials ? 0x02 : 0x00;
+        if (!methods.includes(method)) {
+          socket.end(Buffer.from([0x05, 0xff]));
+          return;
+        }
+        socket.write(Buffer.from([0x05, method]));
+        stage = method === 0x02 ? 'auth' : 'connect';
+        return;
+      }
+
+      if (stage === 'auth') {
+        if (buffer.length < 2 || buffer.length < 3 + buffer[1]) {
+          return;
+        }
+        const userLength = buffer[1];
+        const passLength = buffer[2 + userLength];
+        if (buffer.length < 3 + userLength + passLength) {
+          return;
+        }
+        const username = buffer.subarray(2, 2 + userLength).toString('utf-8');
+        const password = buffer.subarray(3 + userLength, 3 + userLength + passLength).toString('utf-8');
+        buffer = buffer.subarray(3 + userLength + passLength);
+        if (username !== options.credentials!.username || password !== options.credentials!.password) {
+          socket.end(Buffer.from([0x01, 0x01]));
+          return;
+        }
+        socket.write(Buffer.from([0x01, 0x00]));
+        stage = 'connect';
+        return;
+      }
+
+      if (stage === 'connect' && buffer.length >= 4) {
+        socket.write(Buffer.from([0x05, 0x00, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+        stage = 'done';
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function proxyUrl(server: Server, credentials = ''): string {
+  const { port } = server.address() as AddressInfo;
+  return `socks5://${credentials}127.0.0.1:${port}`;
+}
+
+describe('checkSocks5Proxy', () => {
+  let server: Server | null = null;
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  test('succeeds once the proxy grants the CONNECT', async () => {
+    server = await startSocks5Server();
+
+    const result = await checkSocks5Proxy(proxyUrl(server), TARGET, 2000);
+
+    expect(result.success).toBe(true);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('authenticates with the credentials from the URL', async () => {
+    server = await startSocks5Server({ credentials: { username: 'alice', password: 's3cret' } });
+
+    const result = await checkSocks5Proxy(proxyUrl(server, 'alice:s3cret@'), TARGET, 2000);
+
+    expect(result.success).toBe(true);
+  });
+
+  test('fails when the proxy rejects the credentials', async () => {
+    server = await startSocks5Server({ credentials: { username: 'alice', password: 's3cret' } });
+
+    const result = await checkSocks5Proxy(proxyUrl(server, 'alice:wrong@'), TARGET, 2000);
+
+    expect(result).toEqual({ success: false, error: 'Proxy authentication failed' });
+  });
+
+  test('fails when the proxy requires credentials that are not configured', async () => {
+    server = await startSocks5Server({ credentials: { username: 'alice', password: 's3cret' } });
+
+    const result = await checkSocks5Proxy(proxyUrl(server), TARGET, 2000);
+
+    expect(result).toEqual({ success: false, error: 'Proxy rejected all authentication methods' });
+  });
+
+  test('times out when the proxy never answers', async () => {
+    server = await startSocks5Server({ silent: true });
+
+    const result = await checkSocks5Proxy(proxyUrl(server), TARGET, 200);
+
+    expect(result).toEqual({ success: false, error: 'Timed out after 200ms during greeting' });
+  });
+});
@@ -0,0 +1,513 @@
+import { Socket, connect } from 'net';
+import { logger } from './logger';
+import { Config, Proxy, getHealthCheckConfig, getProxyType } from './config';
+import { getProxyHealth, recordProxyHealthCheck, pruneProxyHealth, saveState } from './state';
+import { emitEvent } from './events';
+
+const SOCKS_VERSION = 0x05;
+const AUTH_METHOD_NONE = 0x00;
+const AUTH_METHOD_USERPASS = 0x02;
+const AUTH_METHOD_NO_ACCEPTABLE = 0xff;
+const USERPASS_VERSION = 0x01;
+const CMD_CONNECT = 0x01;
+const ATYP_IPV4 = 0x01;
+const ATYP_DOMAIN = 0x03;
+const ATYP_IPV6 = 0x04;
+
+const SOCKS4_VERSION = 0x04;
+const SOCKS4_GRANTED = 0x5a;
+const MAX_HTTP_RESPONSE_HEAD = 8192;
+
+const CONNECT_REPLY_MESSAGES: Record<number, string> = {
+  0x01: 'general SOCKS server failure',
+  0x02: 'connection not allowed by ruleset',
+  0x03: 'network unreachable',
+  0x04: 'host unreachable',
+  0x05: 'connection refused',
+  0x06: 'TTL expired',
+  0x07: 'command not supported',
+  0x08: 'address type not supported',
+};
+
+const SOCKS4_REPLY_MESSAGES: Record<number, string> = {
+  0x5b: 'request rejected or failed',
+  0x5c: 'identd not reachable',
+  0x5d: 'identd user ID mismatch',
+};
+
+export interface ProxyCheckTarget {
+  host: string;
+  port: number;
+}
+
+export interface ProxyCheckResult {
+  success: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+interface ParsedProxyUrl {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * An open connection to a proxy while a check runs. Protocols read from
+ * buffer, remove what they consumed and call succeed or fail once done.
+ */
+interface HandshakeSession {
+  socket: Socket;
+  proxy: ParsedProxyUrl;
+  stage: string;
+  buffer: Buffer;
+  succeed(): void;
+  fail(error: string): void;
+}
+
+interface HandshakeProtocol {
+  onConnect(session: HandshakeSession): void;
+  onData(session: HandshakeSession): void;
+}
+
+let healthCheckInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Parse a proxy URL into its connection parameters
+ */
+function parseProxyUrl(proxyUrl: string): ParsedProxyUrl {
+  const url = new URL(proxyUrl);
+  return {
+    host: url.hostname.replace(/^\[|\]$/g, ''),
+    port: parseInt(url.port, 10),
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+  };
+}
+
+/**
+ * Encode the CONNECT destination address as ATYP + address bytes
+ */
+function encodeAddress(host: string): Buffer {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return Buffer.from([ATYP_IPV4, ...host.split('.').map(octet => parseInt(octet, 10))]);
+  }
+
+  if (host.includes(':')) {
+    // Expand IPv6 shorthand to 8 groups
+    const [head, tail = ''] = host.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = 8 - headGroups.length - tailGroups.length;
+    const groups = host.includes('::')
+      ? [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+      : headGroups;
+    const bytes: number[] = [];
+    for (const group of groups) {
+      const value = parseInt(group, 16);
+      bytes.push((value >> 8) & 0xff, value & 0xff);
+    }
+    return Buffer.from([ATYP_IPV6, ...bytes]);
+  }
+
+  const hostBytes = Buffer.from(host, 'utf-8');
+  return Buffer.concat([Buffer.from([ATYP_DOMAIN, hostBytes.length]), hostBytes]);
+}
+
+function encodePort(port: number): Buffer {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16BE(port);
+  return bytes;
+}
+
+/**
+ * Connect to a proxy and run a protocol handshake against it, with a
+ * timeout covering the whole exchange
+ */
+function runHandshake(proxyUrl: string, timeoutMs: number, protocol: HandshakeProtocol): Promise<ProxyCheckResult> {
+  return new Promise((resolve) => {
+    let proxy: ParsedProxyUrl;
+    try {
+      proxy = parseProxyUrl(proxyUrl);
+    } catch (error) {
+      resolve({ success: false, error: 'Invalid proxy URL' });
+      return;
+    }
+
+    const startedAt = Date.now();
+    let settled = false;
+
+    const socket: Socket = connect({ host: proxy.host, port: proxy.port });
+
+    const finish = (result: ProxyCheckResult) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(result);
+    };
+
+    const session: HandshakeSession = {
+      socket,
+      proxy,
+      stage: 'connecting',
+      buffer: Buffer.alloc(0),
+      succeed: () => finish({ success: true, latencyMs: Date.now() - startedAt }),
+      fail: (error) => finish({ success: false, error }),
+    };
+
+    const timer = setTimeout(() => {
+      finish({ success: false, error: `Timed out after ${timeoutMs}ms during ${session.stage}` });
+    }, timeoutMs);
+
+    socket.on('connect', () => {
+      protocol.onConnect(session);
+    });
+
+    socket.on('data', (chunk) => {
+      session.buffer = Buffer.concat([session.buffer, chunk]);
+      protocol.onData(session);
+    });
+
+    socket.on('error', (error) => {
+      finish({ success: false, error: error.message });
+    });
+
+    socket.on('close', () => {
+      finish({ success: false, error: `Connection closed during ${session.stage}` });
+    });
+  });
+}
+
+/**
+ * Perform a SOCKS5 greeting, optional username/password auth and CONNECT
+ * handshake against a proxy. The check succeeds once the proxy reports that
+ * it reached the target; no application data is sent.
+ */
+export function checkSocks5Proxy(
+  proxyUrl: string,
+  target: ProxyCheckTarget,
+  timeoutMs: number
+): Promise<ProxyCheckResult> {
+  const sendConnect = (session: HandshakeSession) => {
+    session.stage = 'connect';
+    session.socket.write(Buffer.concat([
+      Buffer.from([SOCKS_VERSION, CMD_CONNECT, 0x00]),
+      encodeAddress(target.host),
+      encodePort(target.port),
+    ]));
+  };
+
+  return runHandshake(proxyUrl, timeoutMs, {
+    onConnect: (session) => {
+      session.stage = 'greeting';
+      const methods = session.proxy.username
+        ? [AUTH_METHOD_NONE, AUTH_METHOD_USERPASS]
+        : [AUTH_METHOD_NONE];
+      session.socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]));
+    },
+
+    onData: (session) => {
+      const { proxy, socket } = session;
+
+      if (session.stage === 'greeting') {
+        if (session.buffer.length < 2) {
+          return;
+        }
+        const [version, method] = session.buffer;
+        session.buffer = session.buffer.subarray(2);
+
+        if (version !== SOCKS_VERSION) {
+          session.fail(`Unexpected SOCKS version ${version}`);
+          return;
+        }
+        if (method === AUTH_METHOD_NO_ACCEPTABLE) {
+          session.fail('Proxy rejected all authentication methods');
+          return;
+        }
+        if (method === AUTH_METHOD_USERPASS) {
+          if (!proxy.username) {
+            session.fail('Proxy requires authentication but no credentials configured');
+            return;
+          }
+          session.stage = 'auth';
+          const user = Buffer.from(proxy.username, 'utf-8');
+          const pass = Buffer.from(proxy.password || '', 'utf-8');
+          socket.write(Buffer.concat([
+            Buffer.from([USERPASS_VERSION, user.length]),
+            user,
+            Buffer.from([pass.length]),
+            pass,
+          ]));
+          return;
+        }
+        if (method !== AUTH_METHOD_NONE) {
+          session.fail(`Proxy selected unsupported auth method ${method}`);
+          return;
+        }
+        sendConnect(session);
+        return;
+      }
+
+      if (session.stage === 'auth') {
+        if (session.buffer.length < 2) {
+          return;
+        }
+        const status = session.buffer[1];
+        session.buffer = session.buffer.subarray(2);
+
+        if (status !== 0x00) {
+          session.fail('Proxy authentication failed');
+          return;
+        }
+        sendConnect(session);
+        return;
+      }
+
+      // CONNECT reply: VER REP RSV ATYP ... - only the first two bytes matter here
+      if (session.buffer.length < 2) {
+        return;
+      }
+      const reply = session.buffer[1];
+      if (reply !== 0x00) {
+        const reason = CONNECT_REPLY_MESSAGES[reply] || `reply code ${reply}`;
+        session.fail(`CONNECT failed: ${reason}`);
+        return;
+      }
+      session.succeed();
+    },
+  });
+}
+
+/**
+ * SOCKS4 CONNECT, using SOCKS4a for host names. The URL's user name is sent
+ * as the user ID.
+ */
+export function checkSocks4Proxy(
+  proxyUrl: string,
+  target: ProxyCheckTarget,
+  timeoutMs: number
+): Promise<ProxyCheckResult> {
+  if (target.host.includes(':')) {
+    return Promise.resolve({ success: false, error: 'SOCKS4 cannot reach IPv6 targets' });
+  }
+
+  return runHandshake(proxyUrl, timeoutMs, {
+    onConnect: (session) => {
+      const isIPv4 = /^\d+\.\d+\.\d+\.\d+$/.test(target.host);
+      const address = isIPv4 ? target.host.split('.').map(octet => parseInt(octet, 10)) : [0, 0, 0, 1];
+      session.socket.write(Buffer.concat([
+        Buffer.from([SOCKS4_VERSION, CMD_CONNECT]),
+        encodePort(target.port),
+        Buffer.from(address),
+        Buffer.from(session.proxy.username || '', 'utf-8'),
+        Buffer.from([0x00]),
+        isIPv4 ? Buffer.alloc(0) : Buffer.concat([Buffer.from(target.host, 'utf-8'), Buffer.from([0x00])]),
+      ]));
+    },
+
+    // Reply: VN CD DSTPORT DSTIP - only the status byte matters here
+    onData: (session) => {
+      if (session.buffer.length < 2) {
+        return;
+      }
+      const reply = session.buffer[1];
+      if (reply !== SOCKS4_GRANTED) {
+        const reason = SOCKS4_REPLY_MESSAGES[reply] || `reply code ${reply}`;
+        session.fail(`CONNECT failed: ${reason}`);
+        return;
+      }
+      session.succeed();
+    },
+  });
+}
+
+/**
+ * HTTP CONNECT with optional basic authentication. Any 2xx status means the
+ * proxy opened the tunnel.
+ */
+export function checkHttpProxy(
+  proxyUrl: string,
+  target: ProxyCheckTarget,
+  timeoutMs: number
+): Promise<ProxyCheckResult> {
+  const authority = `${target.host.includes(':') ? `[${target.host}]` : target.host}:${target.port}`;
+
+  return runHandshake(proxyUrl, timeoutMs, {
+    onConnect: (session) => {
+      const { username, password } = session.proxy;
+      const authorization = username
+        ? `Proxy-Authorization: Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}\r\n`
+        : '';
+      session.socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n${authorization}\r\n`);
+    },
+
+    onData: (session) => {
+      const lineEnd = session.buffer.indexOf('\r\n');
+      if (lineEnd === -1) {
+        if (session.buffer.length > MAX_HTTP_RESPONSE_HEAD) {
+          session.fail('Invalid HTTP response from proxy');
+        }
+        return;
+      }
+
+      const statusLine = session.buffer.subarray(0, lineEnd).toString('latin1');
+      const match = statusLine.match(/^HTTP\/\d(?:\.\d)? (\d{3})\s*(.*)$/);
+      if (!match) {
+        session.fail('Invalid HTTP response from proxy');
+        return;
+      }
+
+      const status = parseInt(match[1], 10);
+      if (status === 407) {
+        session.fail(session.proxy.username ? 'Proxy authentication failed' : 'Proxy requires authentication but no credentials configured');
+        return;
+      }
+      if (status < 200 || status > 299) {
+        session.fail(`CONNECT failed: HTTP ${status}${match[2] ? ` ${match[2]}` : ''}`);
+        return;
+      }
+      session.succeed();
+    },
+  });
+}
+
+/**
+ * Shadowsocks servers do not answer until the target sends data, so only
+ * TCP reachability of the server is checked. A wrong cipher or password is
+ * not detected here.
+ */
+export function checkShadowsocksProxy(proxyUrl: string, timeoutMs: number): Promise<ProxyCheckResult> {
+  return runHandshake(proxyUrl, timeoutMs, {
+    onConnect: (session) => session.succeed(),
+    onData: () => {},
+  });
+}
+
+/**
+ * Check a proxy with the handshake of its type
+ */
+export function checkProxy(proxyUrl: string, target: ProxyCheckTarget, timeoutMs: number): Promise<ProxyCheckResult> {
+  switch (getProxyType(proxyUrl)) {
+    case 'socks5':
+      return checkSocks5Proxy(proxyUrl, target, timeoutMs);
+    case 'socks4':
+      return checkSocks4Proxy(proxyUrl, target, timeoutMs);
+    case 'http':
+      return checkHttpProxy(proxyUrl, target, timeoutMs);
+    case 'shadowsocks':
+      return checkShadowsocksProxy(proxyUrl, timeoutMs);
+    default:
+      return Promise.resolve({ success: false, error: 'Unsupported proxy type' });
+  }
+}
+
+/**
+ * Check a single proxy and record the result in memory
+ */
+async function checkProxyHealth(proxy: Proxy, config: Config): Promise<void> {
+  const healthConfig = getHealthCheckConfig(config);
+  const previous = getProxyHealth(proxy.id);
+
+  const result = await checkProxy(
+    proxy.url,
+    { host: healthConfig.target_host, port: healthConfig.target_port },
+    healthConfig.timeout_ms
+  );
+
+  const health = recordProxyHealthCheck(proxy.id, result, {
+    unhealthyThreshold: healthConfig.unhealthy_threshold,
+    healthyThreshold: healthConfig.healthy_threshold,
+  });
+
+  const wasHealthy = previous ? previous.healthy : true;
+  if (wasHealthy && !health.healthy) {
+    logger.warn(
+      { component: 'health', proxy: proxy.id, location: proxy.location, error: health.last_error, failures: health.consecutive_failures },
+      'Proxy marked unhealthy'
+    );
+    emitEvent({ type: 'proxy_unhealthy', proxy: proxy.id, location: proxy.location, error: health.last_error });
+  } else if (!wasHealthy && health.healthy) {
+    logger.info(
+      { component: 'health', proxy: proxy.id, location: proxy.location, latency_ms: health.latency_ms },
+      'Proxy recovered'
+    );
+    emitEvent({ type: 'proxy_recovered', proxy: proxy.id, location: proxy.location, latency_ms: health.latency_ms });
+  } else {
+    logger.debug(
+      { component: 'health', proxy: proxy.id, success: result.success, latency_ms: result.latencyMs, error: result.error },
+      'Proxy health check completed'
+    );
+  }
+}
+
+/**
+ * Check proxies in parallel, all configured ones by default, and save the
+ * results once the round is done
+ */
+export async function runHealthChecks(config: Config, proxies: Proxy[] = config.proxies): Promise<void> {
+  await Promise.allSettled(proxies.map(proxy => checkProxyHealth(proxy, config)));
+  await saveState();
+}
+
+/**
+ * Whether a proxy may be selected. Proxies that have never been checked are
+ * considered healthy so that selection works before the first round finishes,
+ * and a degraded mark no longer counts once it has expired.
+ */
+export function isProxyHealthy(proxyId: string): boolean {
+  const health = getProxyHealth(proxyId);
+  if (!health || health.healthy) {
+    return true;
+  }
+  return Boolean(health.degraded_until) && new Date(health.degraded_until!).getTime() <= Date.now();
+}
+
+/**
+ * Start periodic health checks. Resolves once the initial round has completed
+ * so that the first proxy assignment already skips dead proxies.
+ */
+export async function startHealthChecker(config: Config): Promise<void> {
+  const healthConfig = getHealthCheckConfig(config);
+
+  // Also runs when checks are disabled so removed proxies don't linger in state.json
+  await pruneProxyHealth(config.proxies.map(p => p.id));
+
+  if (!healthConfig.enabled) {
+    logger.info({ component: 'health' }, 'Proxy health checks disabled in config');
+    return;
+  }
+
+  const intervalMs = healthConfig.interval_seconds * 1000;
+
+  logger.info(
+    { component: 'health', interval_ms: intervalMs, target: `${healthConfig.target_host}:${healthConfig.target_port}` },
+    'Starting proxy health checker'
+  );
+
+  if (healthCheckInterval) {
+    clearInterval(healthCheckInterval);
+  }
+
+  healthCheckInterval = setInterval(() => {
+    runHealthChecks(config).catch(err => {
+      logger.error({ component: 'health', error: err }, 'Error running proxy health checks');
+    });
+  }, intervalMs);
+
+  try {
+    await runHealthChecks(config);
+  } catch (error) {
+    logger.error({ component: 'health', error }, 'Error in initial proxy health check');
+  }
+}
+
+export function stopHealthChecker(): void {
+  if (healthCheckInterval) {
+    clearInterval(healthCheckInterval);
+    healthCheckInterval = null;
+  }
+}
@@ -1,10 +1,18 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { logger } from './logger';
 import { Config } from './config';
-import { getClientConfig, getAllClients } from './client';
+import { getClientConfig, getAllClients, createClient, disableClient, enableClient, deleteClient } from './client';
 import { generateQRCode } from './qr';
 import { rotateProxyForClient, getCurrentProxy } from './proxy';
-import { getWireGuardStatus } from './wireguard';
+import { getWireGuardStatus, getPeerStatuses, getClientPeerStatus } from './wireguard';
+import { renderMetrics } from './metrics';
+import { AuthEnv, createAuthMiddleware, requireScope, canAccessClient, hasUnrestrictedAccess } from './auth';
+import { API_V1_PREFIX, createApiV1, getLifecycleErrorStatus } from './api';
+import { EmittedEvent, LIFECYCLE_EVENT_TYPES, subscribeEvents, getEventsSince } from './events';
+import { createDashboard } from './dashboard';
+import { createPortal } from './portal';
+import { ClientNotFoundError } from './errors';
 import { z } from 'zod';
 
 const ClientNameSchema = z.object({
@@ -15,8 +23,21 @@ const RotateRequestSchema = z.object({
   location: z.string().optional(),
 });
 
+const CreateClientRequestSchema = z.object({
+  name: z.string().min(1),
+});
+
+const SSE_KEEPALIVE_MS = 5000; // Below Bun's default 10 second idle timeout
+
+/**
+ * Read a filter given as repeated and/or comma-separated query values
+ */
+function getQueryList(values: string[] | undefined): string[] {
+  return (values || []).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
 export function createHttpServer(config: Config, port: number): void {
-  const app = new Hono();
+  const app = new Hono<AuthEnv>();
 
   // Health check endpoint
   app.get('/health', async (c) => {
@@ -28,14 +49,191 @@ export function createHttpServer(config: Config, port: number): void {
     });
   });
 
+  // Browser dashboard (static assets only, data is loaded from /api/v1)
+  app.route('/dashboard', createDashboard());
+
+  // Self-service portal links (authenticated by the token in the URL)
+  app.route('/portal', createPortal(config));
+
+  // Everything registered below requires an API key (when keys are configured)
+  app.use('*', createAuthMiddleware(config));
+
+  // Versioned API
+  app.route(API_V1_PREFIX, createApiV1(config));
+
+  // Per-peer WireGuard status
+  app.get('/peers', requireScope('read'), async (c) => {
+    const wgStatus = getPeerStatuses(config);
+    return c.json({
+      interface: config.wireguard.interface,
+      ...wgStatus,
+      peers: wgStatus.peers.filter(p => hasUnrestrictedAccess(c) || (p.client && canAccessClient(c, p.client))),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Prometheus metrics
+  app.get('/metrics', requireScope('read'), async (c) => {
+    if (!hasUnrestrictedAccess(c)) {
+      return c.json({ error: 'Metrics require an API key that is not restricted to specific clients' }, 403);
+    }
+
+    try {
+      return c.text(renderMetrics(config), 200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      });
+    } catch (error) {
+      logger.error({ component: 'http', error }, 'Error rendering metrics');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
+  // Lifecycle event stream (Server-Sent Events)
+  app.get('/events', requireScope('read'), async (c) => {
+    const clients = getQueryList(c.req.queries('client'));
+    const types = getQueryList(c.req.queries('type'));
+
+    const unknownType = types.find(type => !LIFECYCLE_EVENT_TYPES.includes(type as EmittedEvent['type']));
+    if (unknownType) {
+      return c.json({ error: `Unknown event type ${unknownType}`, code: 'invalid_request' }, 400);
+    }
+
+    // Proxy and WireGuard events are not tied to a client and only go to unfiltered, unrestricted streams
+    const matches = (event: EmittedEvent) =>
+      ('client' in event
+        ? canAccessClient(c, event.client) && (clients.length === 0 || clients.includes(event.client))
+        : hasUnrestrictedAccess(c) && clients.length === 0) &&
+      (types.length === 0 || types.includes(event.type));
+
+    const lastEventId = parseInt(c.req.header('Last-Event-ID') || '', 10);
+
+    return streamSSE(c, async (stream) => {
+      const send = (event: EmittedEvent) =>
+        stream.writeSSE({ id: String(event.id), event: event.type, data: JSON.stringify(event) });
+
+      // Replay what a reconnecting client missed, as far as the buffer reaches
+      if (!isNaN(lastEventId)) {
+        for (const event of getEventsSince(lastEventId).filter(matches)) {
+          await send(event);
+        }
+      }
+
+      const unsubscribe = subscribeEvents((event) => {
+        if (matches(event)) {
+          send(event).catch(() => {});
+        }
+      });
+      stream.onAbort(unsubscribe);
+
+      logger.debug({ component: 'http', clients, types }, 'Event stream opened');
+
+      while (!stream.aborted && !stream.closed) {
+        await stream.sleep(SSE_KEEPALIVE_MS);
+        await stream.write(': keepalive\n\n');
+      }
+
+      unsubscribe();
+      logger.debug({ component: 'http' }, 'Event stream closed');
+    });
+  });
+
   // List all clients
-  app.get('/clients', async (c) => {
-    const clients = getAllClients();
+  app.get('/clients', requireScope('read'), async (c) => {
+    const clients = getAllClients().filter(name => canAccessClient(c, name));
     return c.json({ clients });
   });
 
+  // Create client
+  app.post('/clients', requireScope('admin'), async (c) => {
+    try {
+      const body = await c.req.json().catch(() => ({}));
+      const { name } = CreateClientRequestSchema.parse(body);
+
+      if (!canAccessClient(c, name)) {
+        return c.json({ error: 'API key is not allowed to access this client' }, 403);
+      }
+
+      await createClient(name);
+
+      return c.json({ success: true, client: name, proxy: getCurrentProxy(name) }, 201);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json({ error: 'Invalid request', details: error.errors }, 400);
+      }
+      const status = getLifecycleErrorStatus(error);
+      if (status !== 500) {
+        return c.json({ error: (error as Error).message }, status);
+      }
+      logger.error({ component: 'http', error }, 'Error creating client');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
+  // Disable client (peer and tunnel removed, keys kept)
+  app.post('/client/:name/disable', requireScope('admin'), async (c) => {
+    try {
+      const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
+
+      await disableClient(name);
+
+      return c.json({ success: true, client: name, timestamp: new Date().toISOString() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json({ error: 'Invalid client name', details: error.errors }, 400);
+      }
+      const status = getLifecycleErrorStatus(error);
+      if (status !== 500) {
+        return c.json({ error: (error as Error).message }, status);
+      }
+      logger.error({ component: 'http', error }, 'Error disabling client');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
+  // Re-enable client
+  app.post('/client/:name/enable', requireScope('admin'), async (c) => {
+    try {
+      const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
+
+      await enableClient(name);
+
+      return c.json({ success: true, client: name, timestamp: new Date().toISOString() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json({ error: 'Invalid client name', details: error.errors }, 400);
+      }
+      const status = getLifecycleErrorStatus(error);
+      if (status !== 500) {
+        return c.json({ error: (error as Error).message }, status);
+      }
+      logger.error({ component: 'http', error }, 'Error enabling client');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
+  // Delete runtime-created client
+  app.delete('/client/:name', requireScope('admin'), async (c) => {
+    try {
+      const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
+
+      await deleteClient(name);
+
+      return c.json({ success: true, client: name, timestamp: new Date().toISOString() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json({ error: 'Invalid client name', details: error.errors }, 400);
+      }
+      const status = getLifecycleErrorStatus(error);
+      if (status !== 500) {
+        return c.json({ error: (error as Error).message }, status);
+      }
+      logger.error({ component: 'http', error }, 'Error deleting client');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
   // Get client config (plain text)
-  app.get('/client/:name/config', async (c) => {
+  app.get('/client/:name/config', requireScope('read'), async (c) => {
     try {
       const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
       const clientConfig = getClientConfig(name);
@@ -56,8 +254,32 @@ export function createHttpServer(config: Config, port: number): void {
     }
   });
 
+  // Get client peer status
+  app.get('/client/:name/status', requireScope('read'), async (c) => {
+    try {
+      const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
+
+      if (!getClientConfig(name)) {
+        return c.json({ error: 'Client not found' }, 404);
+      }
+
+      return c.json({
+        client: name,
+        proxy: getCurrentProxy(name),
+        peer: getClientPeerStatus(name, config),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return c.json({ error: 'Invalid client name', details: error.errors }, 400);
+      }
+      logger.error({ component: 'http', error }, 'Error getting client status');
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  });
+
   // Get client QR code
-  app.get('/client/:name/qr', async (c) => {
+  app.get('/client/:name/qr', requireScope('read'), async (c) => {
     try {
       const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
       const qrBuffer = await generateQRCode(name);
@@ -72,7 +294,7 @@ export function createHttpServer(config: Config, port: number): void {
       if (error instanceof z.ZodError) {
         return c.json({ error: 'Invalid client name', details: error.errors }, 400);
       }
-      if (error instanceof Error && error.message.includes('not found')) {
+      if (error instanceof ClientNotFoundError) {
         return c.json({ error: error.message }, 404);
       }
       logger.error({ component: 'http', error }, 'Error generating QR code');
@@ -81,7 +303,7 @@ export function createHttpServer(config: Config, port: number): void {
   });
 
   // Rotate proxy for client
-  app.post('/client/:name/rotate', async (c) => {
+  app.post('/client/:name/rotate', requireScope('rotate'), async (c) => {
     try {
       const { name } = ClientNameSchema.parse({ name: c.req.param('name') });
       const body = await c.req.json().catch(() => ({}));
@@ -109,6 +331,10 @@ export function createHttpServer(config: Config, port: number): void {
       if (error instanceof z.ZodError) {
         return c.json({ error: 'Invalid request', details: error.errors }, 400);
       }
+      const status = getLifecycleErrorStatus(error);
+      if (status !== 500) {
+        return c.json({ error: (error as Error).message }, status);
+      }
       logger.error({ component: 'http', error }, 'Error rotating proxy');
       return c.json({ error: 'Internal server error' }, 500);
     }
@@ -2,12 +2,19 @@
 
 import { logger, initializeLogger } from './logger';
 import { loadConfig } from './config';
-import { initializeWireGuard } from './wireguard';
+import { initializeWireGuard, startPeerMonitor, stopPeerMonitor } from './wireguard';
 import { initializeClients } from './client';
-import { startRotationScheduler, assignProxyToClient } from './proxy';
+import { startRotationScheduler, restoreProxyForClient } from './proxy';
 import { cleanupAllTunnels } from './tunnel';
+import { startHealthChecker, stopHealthChecker } from './health';
+import { getEnabledClients } from './registry';
 import { createHttpServer } from './http';
 import { createTelegramBot } from './telegram';
+import { startWebhooks, stopWebhooks } from './webhooks';
+import { startAlerts, stopAlerts } from './alerts';
+import { resumeTemporarySwitches, stopTemporarySwitches } from './switch';
+import { reloadConfig, startConfigWatcher, stopConfigWatcher } from './reload';
+import { mergeSourceProxies, startProxySources, stopProxySources } from './sources';
 
 async function main() {
   try {
@@ -22,6 +29,10 @@ async function main() {
     logger.info({ component: 'main' }, 'Starting WireGuard SOCKS5 proxy');
     logger.info({ component: 'main' }, 'Configuration loaded');
 
+    // Proxies from proxy_sources: the last loaded lists, then a fresh load
+    mergeSourceProxies(config);
+    await startProxySources(config, true);
+
     // Initialize WireGuard server
     await initializeWireGuard(config);
     logger.info({ component: 'main' }, 'WireGuard server initialized');
@@ -30,11 +41,21 @@ async function main() {
     await initializeClients(config);
     logger.info({ component: 'main' }, 'Clients initialized');
 
-    // Assign proxies to clients and start tunnels
-    for (const client of config.clients) {
-      await assignProxyToClient(client.name, config);
+    // Deliver lifecycle events to webhooks, starting with the initial assignments
+    startWebhooks(config);
+
+    // Check proxy health before the first assignment so dead proxies are skipped
+    await startHealthChecker(config);
+    logger.info({ component: 'main' }, 'Proxy health checker started');
+
+    // Restore persisted proxies (or assign new ones) and start tunnels
+    for (const client of getEnabledClients()) {
+      await restoreProxyForClient(client.name, config);
     }
-    logger.info({ component: 'main' }, 'Proxies assigned and tunnels started');
+    logger.info({ component: 'main' }, 'Proxies restored and tunnels started');
+
+    // Re-arm reverts of temporary location switches stored in state
+    resumeTemporarySwitches();
 
     // Start proxy rotation scheduler
     startRotationScheduler(config);
@@ -52,25 +73,53 @@ async function main() {
     // Start Telegram bot (if configured)
     if (config.telegram) {
       createTelegramBot(config);
+      startAlerts(config);
       logger.info({ component: 'main' }, 'Telegram bot initialized');
     } else {
       logger.info({ component: 'main' }, 'Telegram bot not configured');
     }
 
+    // Watch peer handshakes and the interface; after the bot so an interface
+    // that is already down gets alerted
+    startPeerMonitor(config);
+
     // Warn if neither interface is enabled
     if (config.http?.enabled !== true && !config.telegram) {
       logger.warn({ component: 'main' }, 'Neither HTTP server nor Telegram bot is enabled. The application has no interface.');
     }
 
+    // Reload config.yaml on SIGHUP (and on file changes when reload.watch is set)
+    startConfigWatcher(config);
+    process.on('SIGHUP', () => {
+      logger.info({ component: 'main' }, 'Received SIGHUP, reloading configuration');
+      reloadConfig().catch(() => {
+        // Already logged, the running configuration stays in place
+      });
+    });
+
     // Setup shutdown handlers
     process.on('SIGTERM', async () => {
       logger.info({ component: 'main' }, 'Received SIGTERM, shutting down gracefully');
+      stopHealthChecker();
+      stopPeerMonitor();
+      stopWebhooks();
+      stopAlerts();
+      stopTemporarySwitches();
+      stopConfigWatcher();
+      stopProxySources();
       await cleanupAllTunnels();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       logger.info({ component: 'main' }, 'Received SIGINT, shutting down gracefully');
+      stopHealthChecker();
+      stopPeerMonitor();
+      stopWebhooks();
+      stopAlerts();
+      stopTemporarySwitches();
+      stopConfigWatcher();
+      stopProxySources();
       await cleanupAllTunnels();
       process.exit(0);
     });
@@ -0,0 +1,296 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { logger } from './logger';
+import { Config, getConfig } from './config';
+
+const TUN_POOL = '10.210.0.0/15'; // /24s for TUN devices: 10.210.0.0 - 10.211.255.0
+const ROUTE_TABLE_MIN = 1000;
+const ROUTE_TABLE_MAX = 9999;
+
+/**
+ * Network resources leased to a client. Every client gets two TUN subnets
+ * and route tables: the primary slot and the standby slot used while
+ * switching tunnels during make-before-break rotation.
+ */
+export interface IpLease {
+  address: string;
+  tun_subnets: [string, string];
+  route_tables: [number, number];
+  allocated_at: string;
+}
+
+interface IpamState {
+  leases: {
+    [clientName: string]: IpLease;
+  };
+}
+
+let cachedIpam: IpamState | null = null;
+
+function ipToInt(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+}
+
+function intToIp(value: number): string {
+  return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+function parseCidr(cidr: string): { network: number; size: number; prefix: number } {
+  const [ip, prefixStr] = cidr.split('/');
+  const prefix = parseInt(prefixStr, 10);
+  const size = 2 ** (32 - prefix);
+  const network = Math.floor(ipToInt(ip) / size) * size;
+  return { network, size, prefix };
+}
+
+function getIpamFilePath(): string {
+  const config = getConfig();
+  const dataDir = config.data?.dir || './data';
+  return join(dataDir, 'ipam.json');
+}
+
+function loadIpam(): IpamState {
+  if (cachedIpam) {
+    return cachedIpam;
+  }
+
+  const ipamPath = getIpamFilePath();
+
+  if (!existsSync(ipamPath)) {
+    logger.info({ component: 'ipam', path: ipamPath }, 'IPAM file does not exist, initializing empty leases');
+    cachedIpam = { leases: {} };
+    return cachedIpam;
+  }
+
+  try {
+    cachedIpam = JSON.parse(readFileSync(ipamPath, 'utf-8')) as IpamState;
+    logger.info({ component: 'ipam', path: ipamPath }, 'IPAM leases loaded from file');
+    return cachedIpam;
+  } catch (error) {
+    // Refuse to continue: reallocating would change client addresses
+    logger.error({ component: 'ipam', error, path: ipamPath }, 'Failed to load IPAM file');
+    throw error;
+  }
+}
+
+function saveIpam(): void {
+  if (!cachedIpam) {
+    return;
+  }
+
+  const ipamPath = getIpamFilePath();
+
+  try {
+    mkdirSync(dirname(ipamPath), { recursive: true });
+    writeFileSync(ipamPath, JSON.stringify(cachedIpam, null, 2), 'utf-8');
+    logger.debug({ component: 'ipam', path: ipamPath }, 'IPAM leases saved to file');
+  } catch (error) {
+    logger.error({ component: 'ipam', error, path: ipamPath }, 'Failed to save IPAM file');
+    throw error;
+  }
+}
+
+/**
+ * Number of client addresses available in the WireGuard subnet
+ * (excluding network, broadcast and server addresses)
+ */
+export function getClientAddressCapacity(config: Config): number {
+  const { network, size, prefix } = parseCidr(config.wireguard.subnet);
+  if (prefix > 30) {
+    return 0;
+  }
+
+  const serverIP = ipToInt(config.wireguard.server_ip);
+  const serverInSubnet = serverIP > network && serverIP < network + size - 1;
+  return size - 2 - (serverInSubnet ? 1 : 0);
+}
+
+function isUsableClientAddress(address: string, config: Config): boolean {
+  const { network, size } = parseCidr(config.wireguard.subnet);
+  const value = ipToInt(address);
+  return value > network &&
+    value < network + size - 1 &&
+    address !== config.wireguard.server_ip;
+}
+
+function allocateAddress(config: Config, leases: IpLease[]): string {
+  const { network, size } = parseCidr(config.wireguard.subnet);
+  const used = new Set(leases.map(l => l.address));
+
+  for (let value = network + 1; value < network + size - 1; value++) {
+    const address = intToIp(value);
+    if (address !== config.wireguard.server_ip && !used.has(address)) {
+      return address;
+    }
+  }
+
+  throw new Error(
+    `No free client addresses left in ${config.wireguard.subnet} ` +
+    `(${getClientAddressCapacity(config)} usable); use a larger wireguard.subnet`
+  );
+}
+
+function allocateTunSubnets(leases: IpLease[]): [string, string] {
+  const { network, size } = parseCidr(TUN_POOL);
+  const used = new Set(leases.flatMap(l => l.tun_subnets));
+  const free: string[] = [];
+
+  for (let value = network; value < network + size && free.length < 2; value += 256) {
+    const subnet = `${intToIp(value)}/24`;
+    if (!used.has(subnet)) {
+      free.push(subnet);
+    }
+  }
+
+  if (free.length < 2) {
+    throw new Error(`No free TUN subnets left in ${TUN_POOL}`);
+  }
+  return [free[0], free[1]];
+}
+
+function allocateRouteTables(leases: IpLease[]): [number, number] {
+  const used = new Set(leases.flatMap(l => l.route_tables));
+  const free: number[] = [];
+
+  for (let table = ROUTE_TABLE_MIN; table <= ROUTE_TABLE_MAX && free.length < 2; table++) {
+    if (!used.has(table)) {
+      free.push(table);
+    }
+  }
+
+  if (free.length < 2) {
+    throw new Error(`No free route tables left in ${ROUTE_TABLE_MIN}-${ROUTE_TABLE_MAX}`);
+  }
+  return [free[0], free[1]];
+}
+
+/**
+ * Read the address from an existing client config so that clients created
+ * before leases existed keep their IP
+ */
+function getExistingClientAddress(clientName: string, config: Config): string | null {
+  const dataDir = config.data?.dir || './data';
+  const clientConfigPath = join(dataDir, 'clients', `${clientName}.conf`);
+
+  if (!existsSync(clientConfigPath)) {
+    return null;
+  }
+
+  const match = readFileSync(clientConfigPath, 'utf-8').match(/Address\s*=\s*(\d+\.\d+\.\d+\.\d+)\/\d+/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Make sure every client has a lease. Existing leases are reused; leases
+ * whose address no longer fits the WireGuard subnet get a new address.
+ */
+export function ensureLeases(clientNames: string[], config: Config): void {
+  const ipam = loadIpam();
+  const capacity = getClientAddressCapacity(config);
+
+  if (clientNames.length > capacity) {
+    throw new Error(
+      `wireguard.subnet ${config.wireguard.subnet} has room for ${capacity} clients, ` +
+      `but ${clientNames.length} are registered; use a larger subnet`
+    );
+  }
+
+  let changed = false;
+
+  for (const name of clientNames) {
+    const lease = ipam.leases[name];
+    if (lease && !isUsableClientAddress(lease.address, config)) {
+      logger.warn(
+        { component: 'ipam', client: name, address: lease.address, subnet: config.wireguard.subnet },
+        'Leased address is outside the WireGuard subnet, reallocating'
+      );
+      lease.address = '';
+    }
+  }
+
+  // First pass: adopt addresses from existing client configs
+  for (const name of clientNames) {
+    if (ipam.leases[name]) {
+      continue;
+    }
+
+    const existing = getExistingClientAddress(name, config);
+    const taken = Object.values(ipam.leases).some(l => l.address === existing);
+    if (existing && !taken && isUsableClientAddress(existing, config)) {
+      const leases = Object.values(ipam.leases);
+      ipam.leases[name] = {
+        address: existing,
+        tun_subnets: allocateTunSubnets(leases),
+        route_tables: allocateRouteTables(leases),
+        allocated_at: new Date().toISOString(),
+      };
+      changed = true;
+      logger.info({ component: 'ipam', client: name, address: existing }, 'Adopted existing client address');
+    }
+  }
+
+  // Second pass: allocate everything still missing
+  for (const name of clientNames) {
+    const lease = ipam.leases[name];
+    if (lease && lease.address) {
+      continue;
+    }
+
+    const leases = Object.entries(ipam.leases)
+      .filter(([leaseName]) => leaseName !== name)
+      .map(([, l]) => l);
+    const address = allocateAddress(config, leases);
+
+    if (lease) {
+      lease.address = address;
+    } else {
+      ipam.leases[name] = {
+        address,
+        tun_subnets: allocateTunSubnets(leases),
+        route_tables: allocateRouteTables(leases),
+        allocated_at: new Date().toISOString(),
+      };
+    }
+    changed = true;
+    logger.info({ component: 'ipam', client: name, address }, 'Allocated client lease');
+  }
+
+  if (changed || !existsSync(getIpamFilePath())) {
+    saveIpam();
+  }
+}
+
+/**
+ * Get a client's lease, allocating one if it has none yet
+ */
+export function acquireLease(clientName: string, config: Config): IpLease {
+  const ipam = loadIpam();
+
+  if (!ipam.leases[clientName]) {
+    const leases = Object.values(ipam.leases);
+    ipam.leases[clientName] = {
+      address: allocateAddress(config, leases),
+      tun_subnets: allocateTunSubnets(leases),
+      route_tables: allocateRouteTables(leases),
+      allocated_at: new Date().toISOString(),
+    };
+    saveIpam();
+    logger.info({ component: 'ipam', client: clientName, address: ipam.leases[clientName].address }, 'Allocated client lease');
+  }
+
+  return ipam.leases[clientName];
+}
+
+export function getLease(clientName: string): IpLease | undefined {
+  return loadIpam().leases[clientName];
+}
+
+export function releaseLease(clientName: string): void {
+  const ipam = loadIpam();
+
+  if (ipam.leases[clientName]) {
+    delete ipam.leases[clientName];
+    saveIpam();
+    logger.info({ component: 'ipam', client: clientName }, 'Released client lease');
+  }
+}
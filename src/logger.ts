@@ -5,6 +5,33 @@ import { dirname } from 'path';
 
 let loggerInstance: pino.Logger | null = null;
 
+// Shorter values would garble unrelated text in every line
+const MIN_REDACTED_LENGTH = 4;
+
+// Secrets resolved from config references, masked in every log line.
+// Longest first so a secret containing another is masked whole.
+let redactedValues: string[] = [];
+
+/**
+ * Mask a value wherever it appears in log output
+ */
+export function addRedactedValue(value: string): void {
+  if (value.length < MIN_REDACTED_LENGTH) {
+    return;
+  }
+  // Log lines are JSON, so quotes and backslashes appear escaped
+  const variants = [value, JSON.stringify(value).slice(1, -1)];
+  redactedValues = [...new Set([...redactedValues, ...variants])].sort((a, b) => b.length - a.length);
+}
+
+function redactLine(line: string): string {
+  let result = line;
+  for (const value of redactedValues) {
+    result = result.split(value).join('[REDACTED]');
+  }
+  return result;
+}
+
 export function initializeLogger(logFile?: string, level: string = 'info'): pino.Logger {
   const destination = logFile || './data/logs/app.log';
   
@@ -28,6 +55,9 @@ export function initializeLogger(logFile?: string, level: string = 'info'): pino
           return { level: label.toUpperCase() };
         },
       },
+      hooks: {
+        streamWrite: redactLine,
+      },
     },
     pino.multistream([
       { stream: fileStream },
@@ -0,0 +1,210 @@
+import { Config, getProxyType } from './config';
+import { getState } from './state';
+import { isProxyHealthy } from './health';
+import { getEnabledClients } from './registry';
+import { getPeerStatuses } from './wireguard';
+import { RotationTrigger } from './events';
+
+const METRIC_PREFIX = 'wgproxy';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Sample[];
+}
+
+// Counters live in memory and reset on restart, as Prometheus expects
+const rotationCounts = new Map<string, Sample>();
+const tunnelRestartCounts = new Map<string, Sample>();
+const tunnelGiveUpCounts = new Map<string, Sample>();
+
+function incrementCounter(counter: Map<string, Sample>, labels: Labels): void {
+  const key = JSON.stringify(labels);
+  const sample = counter.get(key);
+  if (sample) {
+    sample.value++;
+  } else {
+    counter.set(key, { labels, value: 1 });
+  }
+}
+
+export function recordRotation(clientName: string, location: string, trigger: RotationTrigger): void {
+  incrementCounter(rotationCounts, { client: clientName, location, trigger });
+}
+
+export function recordTunnelRestart(clientName: string): void {
+  incrementCounter(tunnelRestartCounts, { client: clientName });
+}
+
+export function recordTunnelGiveUp(clientName: string): void {
+  incrementCounter(tunnelGiveUpCounts, { client: clientName });
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, sample: Sample): string {
+  const labels = Object.entries(sample.labels)
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(',');
+  return labels ? `${name}{${labels}} ${sample.value}` : `${name} ${sample.value}`;
+}
+
+function formatFamily(family: MetricFamily): string {
+  const name = `${METRIC_PREFIX}_${family.name}`;
+  const lines = [
+    `# HELP ${name} ${family.help}`,
+    `# TYPE ${name} ${family.type}`,
+    ...family.samples.map(sample => formatSample(name, sample)),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(config: Config): string {
+  const state = getState();
+  const wgStatus = getPeerStatuses(config);
+  const families: MetricFamily[] = [];
+
+  families.push({
+    name: 'rotations_total',
+    help: 'Proxy rotations by client, new location and trigger.',
+    type: 'counter',
+    samples: [...rotationCounts.values()],
+  });
+
+  families.push({
+    name: 'tunnel_restarts_total',
+    help: 'TUN2SOCKS restarts scheduled after unexpected exits.',
+    type: 'counter',
+    samples: [...tunnelRestartCounts.values()],
+  });
+
+  families.push({
+    name: 'tunnel_giveups_total',
+    help: 'Times TUN2SOCKS exhausted its restart attempts.',
+    type: 'counter',
+    samples: [...tunnelGiveUpCounts.values()],
+  });
+
+  const clientInfo: Sample[] = [];
+  const lastRotation: Sample[] = [];
+  for (const client of getEnabledClients()) {
+    const clientState = state.clients[client.name];
+    if (!clientState || !clientState.current_proxy) {
+      continue;
+    }
+    clientInfo.push({
+      labels: { client: client.name, location: clientState.current_location, proxy: clientState.current_proxy },
+      value: 1,
+    });
+    if (clientState.last_rotation) {
+      lastRotation.push({
+        labels: { client: client.name },
+        value: Math.floor(new Date(clientState.last_rotation).getTime() / 1000),
+      });
+    }
+  }
+
+  families.push({
+    name: 'client_proxy_info',
+    help: 'Current proxy and location per client (always 1).',
+    type: 'gauge',
+    samples: clientInfo,
+  });
+
+  families.push({
+    name: 'client_last_rotation_timestamp_seconds',
+    help: 'Unix time of the last proxy assignment per client.',
+    type: 'gauge',
+    samples: lastRotation,
+  });
+
+  families.push({
+    name: 'wireguard_up',
+    help: 'Whether the WireGuard interface is up.',
+    type: 'gauge',
+    samples: [{ labels: { interface: config.wireguard.interface }, value: wgStatus.status === 'up' ? 1 : 0 }],
+  });
+
+  const peers = wgStatus.peers.filter(p => p.client);
+  families.push({
+    name: 'peer_online',
+    help: 'Whether the peer completed a handshake within the last 3 minutes.',
+    type: 'gauge',
+    samples: peers.map(p => ({ labels: { client: p.client! }, value: p.online ? 1 : 0 })),
+  });
+
+  families.push({
+    name: 'peer_last_handshake_age_seconds',
+    help: 'Seconds since the latest handshake with the peer.',
+    type: 'gauge',
+    samples: peers
+      .filter(p => p.handshake_age_seconds !== null)
+      .map(p => ({ labels: { client: p.client! }, value: p.handshake_age_seconds! })),
+  });
+
+  families.push({
+    name: 'peer_receive_bytes_total',
+    help: 'Bytes received by the server from the peer.',
+    type: 'counter',
+    samples: peers.map(p => ({ labels: { client: p.client! }, value: p.rx_bytes })),
+  });
+
+  families.push({
+    name: 'peer_transmit_bytes_total',
+    help: 'Bytes sent by the server to the peer.',
+    type: 'counter',
+    samples: peers.map(p => ({ labels: { client: p.client! }, value: p.tx_bytes })),
+  });
+
+  const healthSamples: Sample[] = [];
+  const latencySamples: Sample[] = [];
+  const failureSamples: Sample[] = [];
+  for (const proxy of config.proxies) {
+    const health = state.proxy_health[proxy.id];
+    if (!health) {
+      continue;
+    }
+    const labels = { proxy: proxy.id, type: getProxyType(proxy.url) || 'unknown', location: proxy.location };
+    healthSamples.push({ labels, value: isProxyHealthy(proxy.id) ? 1 : 0 });
+    failureSamples.push({ labels, value: health.consecutive_failures });
+    if (health.latency_ms !== null) {
+      latencySamples.push({ labels, value: health.latency_ms / 1000 });
+    }
+  }
+
+  families.push({
+    name: 'proxy_healthy',
+    help: 'Whether the proxy passes health checks.',
+    type: 'gauge',
+    samples: healthSamples,
+  });
+
+  families.push({
+    name: 'proxy_handshake_latency_seconds',
+    help: 'Duration of the last successful proxy health check handshake.',
+    type: 'gauge',
+    samples: latencySamples,
+  });
+
+  families.push({
+    name: 'proxy_consecutive_failures',
+    help: 'Consecutive failed health checks.',
+    type: 'gauge',
+    samples: failureSamples,
+  });
+
+  return families.map(formatFamily).join('\n') + '\n';
+}
@@ -0,0 +1,317 @@
+import { createHash, randomBytes } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { Hono } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
+import { logger } from './logger';
+import { Config, getConfig } from './config';
+import { getClientConfig } from './client';
+import { generateQRCode } from './qr';
+import { rotateProxyForClient, getCurrentProxy, getProxyLocations } from './proxy';
+import { isClientEnabled } from './registry';
+
+const TOKEN_BYTES = 24;
+
+const PORTAL_ERRORS: Record<string, string> = {
+  unavailable: 'That location is not available.',
+  no_proxy: 'No working proxy is available in that location right now.',
+  failed: 'Switching failed, please try again later.',
+};
+
+export interface PortalLink {
+  token_hash: string; // Only the hash is stored; the token is shown once when created
+  allowed_locations?: string[]; // Overrides portal.allowed_locations for this client
+  created_at: string;
+  created_by?: number; // Telegram user ID
+}
+
+type PortalEnv = {
+  Variables: {
+    clientName: string;
+  };
+};
+
+interface PortalState {
+  links: {
+    [clientName: string]: PortalLink;
+  };
+}
+
+let cachedPortal: PortalState | null = null;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getPortalFilePath(): string {
+  const config = getConfig();
+  const dataDir = config.data?.dir || './data';
+  return join(dataDir, 'portal.json');
+}
+
+function loadPortal(): PortalState {
+  if (cachedPortal) {
+    return cachedPortal;
+  }
+
+  const portalPath = getPortalFilePath();
+
+  if (!existsSync(portalPath)) {
+    cachedPortal = { links: {} };
+    return cachedPortal;
+  }
+
+  try {
+    cachedPortal = JSON.parse(readFileSync(portalPath, 'utf-8')) as PortalState;
+    logger.info({ component: 'portal', path: portalPath }, 'Portal links loaded from file');
+    return cachedPortal;
+  } catch (error) {
+    // Refuse to continue: starting empty would silently break every issued link
+    logger.error({ component: 'portal', error, path: portalPath }, 'Failed to load portal file');
+    throw error;
+  }
+}
+
+function savePortal(): void {
+  if (!cachedPortal) {
+    return;
+  }
+
+  const portalPath = getPortalFilePath();
+
+  try {
+    mkdirSync(dirname(portalPath), { recursive: true });
+    writeFileSync(portalPath, JSON.stringify(cachedPortal, null, 2), 'utf-8');
+    logger.debug({ component: 'portal', path: portalPath }, 'Portal links saved to file');
+  } catch (error) {
+    logger.error({ component: 'portal', error, path: portalPath }, 'Failed to save portal file');
+    throw error;
+  }
+}
+
+/**
+ * Issue a new portal link for a client, replacing any existing one.
+ * Returns the secret token; it cannot be recovered later.
+ */
+export function createPortalLink(
+  clientName: string,
+  options: { allowedLocations?: string[]; createdBy?: number } = {}
+): string {
+  const portal = loadPortal();
+  const token = randomBytes(TOKEN_BYTES).toString('base64url');
+
+  portal.links[clientName] = {
+    token_hash: hashToken(token),
+    allowed_locations: options.allowedLocations,
+    created_at: new Date().toISOString(),
+    created_by: options.createdBy,
+  };
+  savePortal();
+
+  logger.info(
+    { component: 'portal', client: clientName, allowed_locations: options.allowedLocations, created_by: options.createdBy },
+    'Portal link created'
+  );
+  return token;
+}
+
+/**
+ * Revoke a client's portal link. Returns false when it had none.
+ */
+export function revokePortalLink(clientName: string): boolean {
+  const portal = loadPortal();
+
+  if (!portal.links[clientName]) {
+    return false;
+  }
+
+  delete portal.links[clientName];
+  savePortal();
+  logger.info({ component: 'portal', client: clientName }, 'Portal link revoked');
+  return true;
+}
+
+export function getPortalLink(clientName: string): PortalLink | undefined {
+  return loadPortal().links[clientName];
+}
+
+function findClientByToken(token: string): string | null {
+  const tokenHash = hashToken(token);
+  const entry = Object.entries(loadPortal().links).find(([, link]) => link.token_hash === tokenHash);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Locations a client may switch to from its portal, in config order
+ */
+export function getPortalLocations(clientName: string, config: Config): string[] {
+  const allowed = getPortalLink(clientName)?.allowed_locations ?? config.portal?.allowed_locations;
+  const locations = getProxyLocations(config);
+  return allowed ? locations.filter(location => allowed.includes(location)) : locations;
+}
+
+/**
+ * Public URL of a portal link
+ */
+export function getPortalUrl(token: string, config: Config): string {
+  const baseUrl = config.portal?.base_url
+    || `http://${config.wireguard.public_endpoint || config.wireguard.server_ip}:${config.http?.port || 8000}`;
+  return `${baseUrl.replace(/\/+$/, '')}/portal/${token}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const PORTAL_CSS = `
+body { margin: 0; font: 15px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2328; background: #f6f8fa; }
+main { max-width: 420px; margin: 0 auto; padding: 24px 16px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.location { color: #57606a; margin: 0 0 16px; }
+.notice { padding: 8px 12px; border-radius: 6px; background: #ddf4ff; }
+.notice.error { background: #ffebe9; }
+.card { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 16px; margin-bottom: 16px; text-align: center; }
+.card img { width: 240px; height: 240px; image-rendering: pixelated; }
+a.button, button { display: inline-block; font: inherit; padding: 8px 14px; margin: 4px; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; color: inherit; text-decoration: none; cursor: pointer; }
+button.current { background: #1a7f37; border-color: #1a7f37; color: #fff; }
+h2 { font-size: 16px; margin: 0 0 8px; }
+`;
+
+function renderPortalPage(
+  clientName: string,
+  token: string,
+  locations: string[],
+  notice?: { text: string; error?: boolean }
+): string {
+  const currentProxy = getCurrentProxy(clientName);
+  const enabled = isClientEnabled(clientName);
+  const base = `/portal/${encodeURIComponent(token)}`;
+
+  const locationButtons = locations.map(location => {
+    const isCurrent = currentProxy?.location === location;
+    return `<button type="submit" name="location" value="${escapeHtml(location)}"${isCurrent ? ' class="current"' : ''}>${escapeHtml(location)}</button>`;
+  }).join('\n        ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="referrer" content="no-referrer">
+  <title>${escapeHtml(clientName)} – VPN</title>
+  <style>${PORTAL_CSS}</style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(clientName)}</h1>
+    <p class="location">Current location: <strong>${escapeHtml(currentProxy?.location || 'not assigned')}</strong></p>
+    ${notice ? `<p class="notice${notice.error ? ' error' : ''}">${escapeHtml(notice.text)}</p>` : ''}
+    ${enabled ? '' : '<p class="notice error">This client is disabled. Ask an administrator to enable it.</p>'}
+    <div class="card">
+      <img src="${base}/qr" alt="WireGuard configuration QR code">
+      <div><a class="button" href="${base}/config">Download config</a></div>
+    </div>
+    ${enabled && locations.length > 0 ? `<div class="card">
+      <h2>Switch location</h2>
+      <form method="post" action="${base}/location">
+        ${locationButtons}
+      </form>
+    </div>` : ''}
+  </main>
+</body>
+</html>
+`;
+}
+
+function setPortalHeaders(c: Context): void {
+  c.header(
+    'Content-Security-Policy',
+    "default-src 'none'; style-src 'unsafe-inline'; img-src 'self'; form-action 'self'; frame-ancestors 'none'; base-uri 'none'"
+  );
+  c.header('Referrer-Policy', 'no-referrer');
+  c.header('X-Content-Type-Options', 'nosniff');
+  c.header('Cache-Control', 'no-store');
+}
+
+/**
+ * Self-service pages, authenticated by the secret token in the URL. Each
+ * link only exposes its own client.
+ */
+export function createPortal(config: Config): Hono<PortalEnv> {
+  const portal = new Hono<PortalEnv>();
+
+  const resolveToken: MiddlewareHandler<PortalEnv> = async (c, next) => {
+    setPortalHeaders(c);
+    const clientName = findClientByToken(c.req.param('token') || '');
+    if (!clientName) {
+      // Never log the token itself
+      logger.warn({ component: 'portal', method: c.req.method }, 'Invalid portal token');
+      return c.text('This link is invalid or has been revoked.', 404);
+    }
+    c.set('clientName', clientName);
+    await next();
+  };
+
+  portal.use('/:token', resolveToken);
+  portal.use('/:token/*', resolveToken);
+
+  portal.get('/:token', async (c) => {
+    const clientName = c.get('clientName');
+    const locations = getPortalLocations(clientName, config);
+    const switched = c.req.query('switched');
+    const failed = PORTAL_ERRORS[c.req.query('error') || ''];
+    const notice = switched && locations.includes(switched)
+      ? { text: `Switched to ${switched}. Reconnect the VPN if pages do not load.` }
+      : failed
+        ? { text: failed, error: true }
+        : undefined;
+    return c.html(renderPortalPage(clientName, c.req.param('token'), locations, notice));
+  });
+
+  portal.get('/:token/config', async (c) => {
+    const clientName = c.get('clientName');
+    const clientConfig = getClientConfig(clientName);
+    if (!clientConfig) {
+      return c.text('Configuration not found.', 404);
+    }
+    return c.body(clientConfig, 200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${clientName}.conf"`,
+    });
+  });
+
+  portal.get('/:token/qr', async (c) => {
+    const qrBuffer = await generateQRCode(c.get('clientName'));
+    return c.body(new Uint8Array(qrBuffer), 200, { 'Content-Type': 'image/png' });
+  });
+
+  portal.post('/:token/location', async (c) => {
+    const clientName = c.get('clientName');
+    const base = `/portal/${encodeURIComponent(c.req.param('token'))}`;
+    const body = await c.req.parseBody();
+    const location = typeof body.location === 'string' ? body.location : '';
+
+    if (!getPortalLocations(clientName, config).includes(location)) {
+      return c.redirect(`${base}?error=unavailable`, 303);
+    }
+
+    try {
+      await rotateProxyForClient(clientName, location);
+      if (getCurrentProxy(clientName)?.location !== location) {
+        return c.redirect(`${base}?error=no_proxy`, 303);
+      }
+      logger.info({ component: 'portal', client: clientName, location }, 'Location switched via portal');
+      return c.redirect(`${base}?switched=${encodeURIComponent(location)}`, 303);
+    } catch (error) {
+      logger.error({ component: 'portal', error, client: clientName, location }, 'Error switching location via portal');
+      return c.redirect(`${base}?error=failed`, 303);
+    }
+  });
+
+  return portal;
+}
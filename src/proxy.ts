@@ -1,12 +1,19 @@
 import { logger } from './logger';
-import { Config, getConfig, Proxy, getRotationIntervalMs } from './config';
-import { getClientState, initializeClientState, updateClientProxy } from './state';
-import { startTun2Socks, restartClientTunnel } from './tunnel';
+import { Config, getConfig, Proxy, getRotationIntervalMs, findProxy } from './config';
+import { getClientState, initializeClientState, updateClientProxy, markProxyDegraded } from './state';
+import { startTun2Socks, restartClientTunnel, switchClientTunnel, getTunnelProxy } from './tunnel';
 import { notifyAutomaticRotation } from './telegram';
+import { isProxyHealthy } from './health';
+import { getEnabledClients, isClientEnabled } from './registry';
+import { recordRotation } from './metrics';
+import { emitEvent } from './events';
+import { ClientConflictError } from './errors';
 
 let rotationInterval: ReturnType<typeof setInterval> | null = null;
 
 export function startRotationScheduler(config: Config): void {
+  stopRotationScheduler();
+
   const rotationIntervalMs = getRotationIntervalMs(config.rotation);
   
   // Check interval: use the smaller of 1 hour or rotation interval / 10
@@ -38,8 +45,15 @@ export function startRotationScheduler(config: Config): void {
   });
 }
 
+export function stopRotationScheduler(): void {
+  if (rotationInterval) {
+    clearInterval(rotationInterval);
+    rotationInterval = null;
+  }
+}
+
 async function checkAndRotateProxies(config: Config): Promise<void> {
-  const clients = config.clients;
+  const clients = getEnabledClients();
   const intervalMs = getRotationIntervalMs(config.rotation);
 
   for (const client of clients) {
@@ -51,6 +65,15 @@ async function checkAndRotateProxies(config: Config): Promise<void> {
       continue;
     }
 
+    // The temporary switch reverts on its own timer, rotation resumes after that
+    if (clientState.temporary_switch) {
+      logger.debug(
+        { component: 'proxy', client: client.name, revert_at: clientState.temporary_switch.revert_at },
+        'Skipping rotation during temporary location switch'
+      );
+      continue;
+    }
+
     const lastRotation = new Date(clientState.last_rotation);
     const now = new Date();
     const timeSinceRotation = now.getTime() - lastRotation.getTime();
@@ -72,7 +95,11 @@ async function checkAndRotateProxies(config: Config): Promise<void> {
         },
         'Rotation interval reached, rotating proxy'
       );
-      await rotateProxyForClient(client.name, undefined, true); // true = automatic rotation
+      try {
+        await rotateProxyForClient(client.name, undefined, true); // true = automatic rotation
+      } catch (error) {
+        logger.error({ component: 'proxy', error, client: client.name }, 'Automatic rotation failed');
+      }
     }
   }
 }
@@ -82,6 +109,10 @@ export async function rotateProxyForClient(
   preferredLocation?: string, 
   isAutomatic: boolean = false
 ): Promise<void> {
+  if (!isClientEnabled(clientName)) {
+    throw new ClientConflictError(`Client ${clientName} is disabled or does not exist`);
+  }
+
   const config = getConfig();
   const clientState = getClientState(clientName) || await initializeClientState(clientName);
 
@@ -96,31 +127,220 @@ export async function rotateProxyForClient(
     return;
   }
 
-  // Update state
-  await updateClientProxy(clientName, selectedProxy.url, selectedProxy.location, oldProxy, oldLocation);
+  // In make-before-break mode the new proxy is only committed once its tunnel
+  // passes traffic; on failure the client stays on the old proxy
+  const makeBeforeBreak = Boolean(oldProxy) && config.rotation?.mode === 'make_before_break';
+  if (makeBeforeBreak) {
+    await switchClientTunnel(clientName, selectedProxy, config);
+  }
 
-  // Restart TUN2SOCKS with new proxy
+  // Update state
+  await updateClientProxy(
+    clientName,
+    selectedProxy.id,
+    selectedProxy.location,
+    oldProxy,
+    oldLocation,
+    isAutomatic ? 'scheduled' : 'manual'
+  );
+  recordRotation(clientName, selectedProxy.location, isAutomatic ? 'automatic' : 'manual');
   if (oldProxy) {
-    await restartClientTunnel(clientName, selectedProxy.url, config);
+    emitEvent({
+      type: 'proxy_rotated',
+      client: clientName,
+      old_proxy: oldProxy,
+      new_proxy: selectedProxy.id,
+      old_location: oldLocation,
+      new_location: selectedProxy.location,
+      trigger: isAutomatic ? 'automatic' : 'manual',
+    });
   } else {
-    await startTun2Socks(clientName, selectedProxy.url, config);
+    emitEvent({ type: 'proxy_assigned', client: clientName, proxy: selectedProxy.id, location: selectedProxy.location, restored: false });
+  }
+
+  // Restart TUN2SOCKS with new proxy
+  if (!makeBeforeBreak) {
+    if (oldProxy) {
+      await restartClientTunnel(clientName, selectedProxy, config);
+    } else {
+      await startTun2Socks(clientName, selectedProxy, config);
+    }
   }
 
   logger.info(
-    { component: 'proxy', client: clientName, old_proxy: oldProxy, new_proxy: selectedProxy.url, location: selectedProxy.location },
+    { component: 'proxy', client: clientName, old_proxy: oldProxy, new_proxy: selectedProxy.id, location: selectedProxy.location },
     'Proxy rotated for client'
   );
 
   // Send notification if this was an automatic rotation
   if (isAutomatic && oldProxy) {
     try {
-      await notifyAutomaticRotation(clientName, oldLocation, selectedProxy.location, selectedProxy.url);
+      await notifyAutomaticRotation(clientName, oldLocation, selectedProxy.location, selectedProxy.id);
     } catch (error) {
       logger.error({ component: 'proxy', error, client: clientName }, 'Failed to send rotation notification');
     }
   }
 }
 
+/**
+ * Move a client off a proxy whose tunnel could not be kept alive.
+ * Called by the tunnel layer once tun2socks has exhausted its restart attempts.
+ */
+export async function failoverProxyForClient(clientName: string, failedProxyId: string): Promise<void> {
+  const config = getConfig();
+  const clientState = getClientState(clientName) || await initializeClientState(clientName);
+
+  // The client may have been rotated while the failing tunnel was restarting
+  if (clientState.current_proxy && clientState.current_proxy !== failedProxyId) {
+    logger.info(
+      { component: 'proxy', client: clientName, failed_proxy: failedProxyId, current_proxy: clientState.current_proxy },
+      'Ignoring tunnel failure for a proxy that is no longer assigned'
+    );
+    return;
+  }
+
+  const oldLocation = clientState.current_location;
+
+  // Exclude the failed proxy from selection until health checks clear it
+  const wasHealthy = isProxyHealthy(failedProxyId);
+  await markProxyDegraded(failedProxyId, 'Tunnel exhausted restart attempts');
+  if (wasHealthy) {
+    emitEvent({
+      type: 'proxy_unhealthy',
+      proxy: failedProxyId,
+      location: findProxy(config, failedProxyId)?.location || oldLocation,
+      error: 'Tunnel exhausted restart attempts',
+    });
+  }
+
+  // Prefer staying in the same location, fall back to any healthy proxy
+  let selectedProxy = oldLocation ? await selectFreshestProxy(clientName, oldLocation, config) : null;
+  if (!selectedProxy) {
+    selectedProxy = await selectFreshestProxy(clientName, undefined, config);
+  }
+
+  if (!selectedProxy) {
+    // The tunnel alert stays open until a tunnel for this client starts again
+    logger.error(
+      { component: 'proxy', client: clientName, failed_proxy: failedProxyId },
+      'No healthy proxy available for failover'
+    );
+    return;
+  }
+
+  await updateClientProxy(
+    clientName,
+    selectedProxy.id,
+    selectedProxy.location,
+    failedProxyId,
+    oldLocation,
+    'tunnel_failure'
+  );
+  recordRotation(clientName, selectedProxy.location, 'failover');
+  emitEvent({
+    type: 'proxy_rotated',
+    client: clientName,
+    old_proxy: failedProxyId,
+    new_proxy: selectedProxy.id,
+    old_location: oldLocation,
+    new_location: selectedProxy.location,
+    trigger: 'failover',
+  });
+
+  await restartClientTunnel(clientName, selectedProxy, config);
+
+  logger.warn(
+    { component: 'proxy', client: clientName, failed_proxy: failedProxyId, new_proxy: selectedProxy.id, location: selectedProxy.location },
+    'Client failed over to a different proxy'
+  );
+}
+
+/**
+ * Move a client off a proxy that was removed from the config by a reload,
+ * preferring the same location. Does nothing when the client's proxy is
+ * still configured.
+ */
+export async function replaceRemovedProxyForClient(clientName: string, config: Config): Promise<void> {
+  const clientState = getClientState(clientName);
+  if (!clientState || !clientState.current_proxy) {
+    return;
+  }
+
+  const removedProxyId = clientState.current_proxy;
+  if (findProxy(config, removedProxyId)) {
+    return;
+  }
+
+  const oldLocation = clientState.current_location;
+  let selectedProxy = oldLocation ? await selectFreshestProxy(clientName, oldLocation, config) : null;
+  if (!selectedProxy) {
+    selectedProxy = await selectFreshestProxy(clientName, undefined, config);
+  }
+
+  if (!selectedProxy) {
+    // The old tunnel keeps running until a proxy becomes available
+    logger.error(
+      { component: 'proxy', client: clientName, removed_proxy: removedProxyId },
+      'No healthy proxy available to replace a removed proxy'
+    );
+    return;
+  }
+
+  await updateClientProxy(
+    clientName,
+    selectedProxy.id,
+    selectedProxy.location,
+    removedProxyId,
+    oldLocation,
+    'proxy_removed'
+  );
+  recordRotation(clientName, selectedProxy.location, 'automatic');
+  emitEvent({
+    type: 'proxy_rotated',
+    client: clientName,
+    old_proxy: removedProxyId,
+    new_proxy: selectedProxy.id,
+    old_location: oldLocation,
+    new_location: selectedProxy.location,
+    trigger: 'automatic',
+  });
+
+  await restartClientTunnel(clientName, selectedProxy, config);
+
+  logger.info(
+    {
+      component: 'proxy',
+      client: clientName,
+      removed_proxy: removedProxyId,
+      new_proxy: selectedProxy.id,
+      location: selectedProxy.location,
+    },
+    'Client moved off a proxy removed from the config'
+  );
+
+  try {
+    await notifyAutomaticRotation(clientName, oldLocation, selectedProxy.location, selectedProxy.id);
+  } catch (error) {
+    logger.error({ component: 'proxy', error, client: clientName }, 'Failed to send rotation notification');
+  }
+}
+
+/**
+ * Restart a client's tunnel when its proxy kept its ID but changed URL, e.g.
+ * a new password, so tun2socks picks up the new credentials.
+ */
+export async function applyUpdatedProxyForClient(clientName: string, config: Config): Promise<void> {
+  const clientState = getClientState(clientName);
+  const proxy = clientState ? findProxy(config, clientState.current_proxy) : undefined;
+  const running = getTunnelProxy(clientName);
+  if (!proxy || !running || running.url === proxy.url) {
+    return;
+  }
+
+  await restartClientTunnel(clientName, proxy, config);
+  logger.info({ component: 'proxy', client: clientName, proxy: proxy.id }, 'Tunnel restarted with the updated proxy URL');
+}
+
 export async function assignProxyToClient(clientName: string, config: Config): Promise<void> {
   const selectedProxy = await selectFreshestProxy(clientName, undefined, config);
 
@@ -129,23 +349,78 @@ export async function assignProxyToClient(clientName: string, config: Config): P
     return;
   }
 
-  await updateClientProxy(clientName, selectedProxy.url, selectedProxy.location);
+  await updateClientProxy(clientName, selectedProxy.id, selectedProxy.location);
+  emitEvent({ type: 'proxy_assigned', client: clientName, proxy: selectedProxy.id, location: selectedProxy.location, restored: false });
 
   // Start TUN2SOCKS tunnel for this client
-  await startTun2Socks(clientName, selectedProxy.url, config);
+  await startTun2Socks(clientName, selectedProxy, config);
 
   logger.info(
-    { component: 'proxy', client: clientName, proxy: selectedProxy.url, location: selectedProxy.location },
+    { component: 'proxy', client: clientName, proxy: selectedProxy.id, location: selectedProxy.location },
     'Proxy assigned to client and tunnel started'
   );
 }
 
+/**
+ * Bring up a client's tunnel on startup. The persisted proxy is kept when it
+ * is still configured so restarts neither change the exit IP nor reset the
+ * rotation clock; a new proxy is only selected when none is usable.
+ */
+export async function restoreProxyForClient(clientName: string, config: Config): Promise<void> {
+  const clientState = getClientState(clientName);
+
+  if (!clientState || !clientState.current_proxy) {
+    await assignProxyToClient(clientName, config);
+    return;
+  }
+
+  const persistedProxy = findProxy(config, clientState.current_proxy);
+  if (!persistedProxy) {
+    logger.warn(
+      { component: 'proxy', client: clientName, proxy: clientState.current_proxy },
+      'Persisted proxy no longer in config, selecting a new one'
+    );
+    await assignProxyToClient(clientName, config);
+    return;
+  }
+
+  emitEvent({
+    type: 'proxy_assigned',
+    client: clientName,
+    proxy: persistedProxy.id,
+    location: clientState.current_location,
+    restored: true,
+  });
+
+  await startTun2Socks(clientName, persistedProxy, config);
+
+  logger.info(
+    {
+      component: 'proxy',
+      client: clientName,
+      proxy: persistedProxy.id,
+      location: clientState.current_location,
+      last_rotation: clientState.last_rotation,
+    },
+    'Restored persisted proxy for client and tunnel started'
+  );
+}
+
 async function selectFreshestProxy(clientName: string, preferredLocation?: string, config?: Config): Promise<Proxy | null> {
   const appConfig = config || getConfig();
   const clientState = getClientState(clientName) || await initializeClientState(clientName);
 
+  // Exclude proxies that failed their health checks
+  let availableProxies = appConfig.proxies.filter(p => isProxyHealthy(p.id));
+
+  if (availableProxies.length < appConfig.proxies.length) {
+    logger.debug(
+      { component: 'proxy', client: clientName, excluded: appConfig.proxies.length - availableProxies.length },
+      'Excluding unhealthy proxies from selection'
+    );
+  }
+
   // Filter proxies by location if specified
-  let availableProxies = appConfig.proxies;
 
   if (preferredLocation) {
     availableProxies = availableProxies.filter(p => p.location === preferredLocation);
@@ -168,7 +443,7 @@ async function selectFreshestProxy(clientName: string, preferredLocation?: strin
   let oldestDate: Date | null = null;
 
   for (const proxy of availableProxies) {
-    const usageDateStr = clientState.proxy_usage_dates[proxy.url];
+    const usageDateStr = clientState.proxy_usage_dates[proxy.id];
     let usageDate: Date;
 
     if (usageDateStr) {
@@ -187,7 +462,14 @@ async function selectFreshestProxy(clientName: string, preferredLocation?: strin
   return freshestProxy;
 }
 
-export function getCurrentProxy(clientName: string): { url: string; location: string } | null {
+/**
+ * Distinct proxy locations in config order, as offered by the bot menu and dashboard
+ */
+export function getProxyLocations(config: Config): string[] {
+  return [...new Set(config.proxies.map(p => p.location))];
+}
+
+export function getCurrentProxy(clientName: string): { id: string; location: string } | null {
   const clientState = getClientState(clientName);
 
   if (!clientState || !clientState.current_proxy) {
@@ -195,7 +477,7 @@ export function getCurrentProxy(clientName: string): { url: string; location: st
   }
 
   return {
-    url: clientState.current_proxy,
+    id: clientState.current_proxy,
     location: clientState.current_location,
   };
 }
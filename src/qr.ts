@@ -1,12 +1,13 @@
 import QRCode from 'qrcode';
 import { logger } from './logger';
 import { getClientConfig } from './client';
+import { ClientNotFoundError } from './errors';
 
 export async function generateQRCode(clientName: string): Promise<Buffer> {
   const config = getClientConfig(clientName);
   
   if (!config) {
-    throw new Error(`Client config not found for ${clientName}`);
+    throw new ClientNotFoundError(clientName);
   }
 
   try {
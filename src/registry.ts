@@ -0,0 +1,189 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { logger } from './logger';
+import { Config, getConfig } from './config';
+
+// Why a client is disabled: removed from config.yaml or by an admin
+export type DisabledReason = 'config_removed' | 'admin';
+
+export interface RegisteredClient {
+  name: string;
+  enabled: boolean;
+  source: 'config' | 'runtime';
+  created_at: string;
+  disabled_reason?: DisabledReason; // Unset in registries written before it existed
+  disabled_at?: string; // Ends the client's last usage period in stats
+}
+
+export interface Registry {
+  clients: RegisteredClient[];
+}
+
+let cachedRegistry: Registry | null = null;
+
+function getRegistryFilePath(): string {
+  const config = getConfig();
+  const dataDir = config.data?.dir || './data';
+  return join(dataDir, 'registry.json');
+}
+
+function loadRegistry(): Registry {
+  if (cachedRegistry) {
+    return cachedRegistry;
+  }
+
+  const registryPath = getRegistryFilePath();
+
+  if (!existsSync(registryPath)) {
+    logger.info({ component: 'registry', path: registryPath }, 'Registry file does not exist, initializing empty registry');
+    cachedRegistry = { clients: [] };
+    return cachedRegistry;
+  }
+
+  try {
+    const fileContent = readFileSync(registryPath, 'utf-8');
+    cachedRegistry = JSON.parse(fileContent) as Registry;
+    logger.info({ component: 'registry', path: registryPath }, 'Registry loaded from file');
+    return cachedRegistry;
+  } catch (error) {
+    // Refuse to continue: an empty registry would forget runtime-created clients
+    logger.error({ component: 'registry', error, path: registryPath }, 'Failed to load registry file');
+    throw error;
+  }
+}
+
+function saveRegistry(): void {
+  if (!cachedRegistry) {
+    return;
+  }
+
+  const registryPath = getRegistryFilePath();
+
+  try {
+    mkdirSync(dirname(registryPath), { recursive: true });
+    writeFileSync(registryPath, JSON.stringify(cachedRegistry, null, 2), 'utf-8');
+    logger.debug({ component: 'registry', path: registryPath }, 'Registry saved to file');
+  } catch (error) {
+    logger.error({ component: 'registry', error, path: registryPath }, 'Failed to save registry file');
+    throw error;
+  }
+}
+
+/**
+ * Register clients from config.yaml that are not in the registry yet. Clients
+ * no longer in config.yaml are disabled, as a reload does, and kept as
+ * runtime clients so they can be re-enabled or deleted. A client that returns
+ * to config.yaml is enabled again unless an admin disabled it.
+ */
+export function syncRegistryWithConfig(config: Config): void {
+  const registry = loadRegistry();
+  let changed = false;
+
+  for (const existing of registry.clients) {
+    if (existing.source === 'config' && !config.clients.some(c => c.name === existing.name)) {
+      existing.source = 'runtime';
+      if (existing.enabled) {
+        existing.enabled = false;
+        existing.disabled_reason = 'config_removed';
+        existing.disabled_at = new Date().toISOString();
+      }
+      changed = true;
+      logger.info({ component: 'registry', client: existing.name }, 'Client removed from config, disabled and kept as runtime client');
+    }
+  }
+
+  for (const client of config.clients) {
+    const existing = registry.clients.find(c => c.name === client.name);
+    if (existing) {
+      if (existing.source !== 'config') {
+        existing.source = 'config';
+        changed = true;
+      }
+      if (!existing.enabled && existing.disabled_reason === 'config_removed') {
+        existing.enabled = true;
+        delete existing.disabled_reason;
+        delete existing.disabled_at;
+        changed = true;
+        logger.info({ component: 'registry', client: client.name }, 'Client back in config, re-enabled');
+      } else if (!existing.enabled) {
+        logger.warn({ component: 'registry', client: client.name }, 'Client in config is disabled by an admin, use /enable to restore it');
+      }
+      continue;
+    }
+
+    registry.clients.push({
+      name: client.name,
+      enabled: true,
+      source: 'config',
+      created_at: new Date().toISOString(),
+    });
+    changed = true;
+    logger.info({ component: 'registry', client: client.name }, 'Registered client from config');
+  }
+
+  if (changed || !existsSync(getRegistryFilePath())) {
+    saveRegistry();
+  }
+}
+
+export function getRegisteredClients(): RegisteredClient[] {
+  return loadRegistry().clients;
+}
+
+export function getEnabledClients(): RegisteredClient[] {
+  return loadRegistry().clients.filter(c => c.enabled);
+}
+
+export function getRegisteredClient(name: string): RegisteredClient | undefined {
+  return loadRegistry().clients.find(c => c.name === name);
+}
+
+export function isClientEnabled(name: string): boolean {
+  return getRegisteredClient(name)?.enabled === true;
+}
+
+export function registerClient(name: string): RegisteredClient {
+  const registry = loadRegistry();
+
+  if (registry.clients.some(c => c.name === name)) {
+    throw new Error(`Client ${name} already exists`);
+  }
+
+  const client: RegisteredClient = {
+    name,
+    enabled: true,
+    source: 'runtime',
+    created_at: new Date().toISOString(),
+  };
+
+  registry.clients.push(client);
+  saveRegistry();
+  logger.info({ component: 'registry', client: name }, 'Client registered');
+
+  return client;
+}
+
+export function setClientEnabled(name: string, enabled: boolean, reason: DisabledReason = 'admin'): void {
+  const client = getRegisteredClient(name);
+  if (!client) {
+    throw new Error(`Client ${name} not found`);
+  }
+
+  client.enabled = enabled;
+  if (enabled) {
+    delete client.disabled_reason;
+    delete client.disabled_at;
+  } else {
+    client.disabled_reason = reason;
+    client.disabled_at = new Date().toISOString();
+  }
+  saveRegistry();
+  logger.info({ component: 'registry', client: name, enabled, reason: enabled ? undefined : reason }, 'Client enabled state changed');
+}
+
+export function unregisterClient(name: string): void {
+  const registry = loadRegistry();
+  registry.clients = registry.clients.filter(c => c.name !== name);
+  saveRegistry();
+  logger.info({ component: 'registry', client: name }, 'Client unregistered');
+}
@@ -0,0 +1,304 @@
+import { watchFile, unwatchFile } from 'fs';
+import { logger } from './logger';
+import { Config, getConfig, getConfigPath, readConfigFile, replaceConfig } from './config';
+import { initializeClients, disableClient } from './client';
+import {
+  startRotationScheduler,
+  stopRotationScheduler,
+  restoreProxyForClient,
+  replaceRemovedProxyForClient,
+  applyUpdatedProxyForClient,
+} from './proxy';
+import { startHealthChecker, stopHealthChecker } from './health';
+import { startWebhooks, stopWebhooks } from './webhooks';
+import { refreshCommandMenus } from './telegram';
+import { mergeSourceProxies, startProxySources } from './sources';
+import { getEnabledClients, isClientEnabled } from './registry';
+
+export interface ConfigChangePlan {
+  proxies_added: string[]; // Proxy IDs
+  proxies_removed: string[];
+  proxies_changed: string[]; // Same ID, different URL or location
+  proxy_sources: boolean;
+  clients_added: string[];
+  clients_removed: string[];
+  clients_changed: string[];
+  rotation: boolean;
+  health_check: boolean;
+  http: boolean; // API keys and rate limits; the listener needs a restart
+  telegram: boolean; // Users, roles and alerts; the bot token needs a restart
+  webhooks: boolean;
+  portal: boolean;
+  reload: boolean;
+  restart_required: string[]; // Changed settings that keep their running value until a restart
+}
+
+let watchedPath: string | null = null;
+let reloadQueue: Promise<unknown> = Promise.resolve();
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getTelegramUserIds(config: Config): number[] {
+  if (!config.telegram) {
+    return [];
+  }
+  return [...new Set([...config.telegram.admin_user_ids, ...config.telegram.users.map(u => u.id)])];
+}
+
+/**
+ * Compare the running config with a newly read one. Settings that cannot
+ * change while running are carried over from the current config into the
+ * returned effective config and listed in restart_required.
+ */
+export function computeChangePlan(current: Config, next: Config): { plan: ConfigChangePlan; effective: Config } {
+  const effective: Config = { ...next };
+  const restartRequired: string[] = [];
+
+  for (const key of ['wireguard', 'data', 'logging'] as const) {
+    if (!sameValue(current[key], next[key])) {
+      restartRequired.push(key);
+      (effective as Record<string, unknown>)[key] = current[key];
+    }
+  }
+
+  const listener = (config: Config) => ({
+    enabled: config.http?.enabled === true,
+    port: config.http?.port || 8000,
+    host: config.http?.host || '0.0.0.0',
+  });
+  if (!sameValue(listener(current), listener(next))) {
+    restartRequired.push('http.enabled, http.port, http.host');
+    effective.http = current.http && next.http
+      ? { ...next.http, enabled: current.http.enabled, port: current.http.port, host: current.http.host }
+      : current.http;
+  }
+
+  if (!current.telegram !== !next.telegram || current.telegram?.bot_token !== next.telegram?.bot_token) {
+    restartRequired.push(current.telegram && next.telegram ? 'telegram.bot_token' : 'telegram');
+    effective.telegram = current.telegram && next.telegram
+      ? { ...next.telegram, bot_token: current.telegram.bot_token }
+      : current.telegram;
+  }
+
+  const currentProxies = new Map(current.proxies.map(p => [p.id, p]));
+  const nextProxies = new Map(next.proxies.map(p => [p.id, p]));
+  const currentClients = new Map(current.clients.map(c => [c.name, c]));
+  const nextClients = new Map(next.clients.map(c => [c.name, c]));
+
+  const plan: ConfigChangePlan = {
+    proxies_added: [...nextProxies.keys()].filter(id => !currentProxies.has(id)),
+    proxies_removed: [...currentProxies.keys()].filter(id => !nextProxies.has(id)),
+    proxies_changed: [...nextProxies.entries()]
+      .filter(([id, proxy]) => {
+        const existing = currentProxies.get(id);
+        return existing !== undefined && (existing.url !== proxy.url || existing.location !== proxy.location);
+      })
+      .map(([id]) => id),
+    proxy_sources: !sameValue(current.proxy_sources, effective.proxy_sources),
+    clients_added: [...nextClients.keys()].filter(name => !currentClients.has(name)),
+    clients_removed: [...currentClients.keys()].filter(name => !nextClients.has(name)),
+    clients_changed: [...nextClients.entries()]
+      .filter(([name, client]) => currentClients.has(name) && !sameValue(currentClients.get(name), client))
+      .map(([name]) => name),
+    rotation: !sameValue(current.rotation, effective.rotation),
+    health_check: !sameValue(current.health_check, effective.health_check),
+    http: !sameValue(current.http, effective.http),
+    telegram: !sameValue(current.telegram, effective.telegram),
+    webhooks: !sameValue(current.webhooks, effective.webhooks),
+    portal: !sameValue(current.portal, effective.portal),
+    reload: !sameValue(current.reload, effective.reload),
+    restart_required: restartRequired,
+  };
+
+  return { plan, effective };
+}
+
+/**
+ * Whether a plan changes anything in the running services
+ */
+export function hasChanges(plan: ConfigChangePlan): boolean {
+  return Object.entries(plan).some(([key, value]) =>
+    key !== 'restart_required' && (Array.isArray(value) ? value.length > 0 : value)
+  );
+}
+
+/**
+ * Apply a plan to the running services. Each step is attempted even when an
+ * earlier one failed; the failures are returned.
+ */
+async function applyChangePlan(plan: ConfigChangePlan, previous: Config, config: Config): Promise<string[]> {
+  const errors: string[] = [];
+  const step = async (name: string, action: () => Promise<void> | void): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ component: 'reload', step: name, error }, 'Failed to apply configuration change');
+      errors.push(`${name}: ${message}`);
+    }
+  };
+
+  const clientsChanged = plan.clients_added.length > 0 || plan.clients_removed.length > 0 || plan.clients_changed.length > 0;
+  const proxiesChanged = plan.proxies_added.length > 0 || plan.proxies_removed.length > 0 || plan.proxies_changed.length > 0;
+
+  // Before any proxy is assigned so new proxies have a health state
+  if (plan.health_check || proxiesChanged) {
+    await step('restart health checker', async () => {
+      stopHealthChecker();
+      await startHealthChecker(config);
+    });
+  }
+
+  // Clients removed from config.yaml keep their keys but lose their peer and tunnel
+  for (const name of plan.clients_removed) {
+    await step(`disable client ${name}`, () => disableClient(name, 'config_removed'));
+  }
+
+  if (clientsChanged) {
+    // New clients, and clients back in config.yaml that the sync re-enables
+    const startClients = plan.clients_added.filter(name => !isClientEnabled(name));
+    // Registers new clients, regenerates changed client configs and syncs peers
+    await step('sync clients', () => initializeClients(config));
+    for (const name of startClients) {
+      if (isClientEnabled(name)) {
+        await step(`start client ${name}`, () => restoreProxyForClient(name, config));
+      }
+    }
+  }
+
+  if (plan.proxies_removed.length > 0) {
+    for (const client of getEnabledClients()) {
+      await step(`replace proxy of ${client.name}`, () => replaceRemovedProxyForClient(client.name, config));
+    }
+  }
+
+  // New credentials for a proxy in use need a tunnel restart
+  if (plan.proxies_changed.length > 0) {
+    for (const client of getEnabledClients()) {
+      await step(`update proxy of ${client.name}`, () => applyUpdatedProxyForClient(client.name, config));
+    }
+  }
+
+  // Reloads every source and moves clients off proxies the new lists dropped
+  if (plan.proxy_sources) {
+    await step('restart proxy sources', () => startProxySources(config, false));
+  }
+
+  if (plan.rotation) {
+    await step('restart rotation scheduler', () => {
+      stopRotationScheduler();
+      startRotationScheduler(config);
+    });
+  }
+
+  if (plan.webhooks) {
+    await step('restart webhooks', () => {
+      stopWebhooks();
+      startWebhooks(config);
+    });
+  }
+
+  if (plan.telegram) {
+    const userIds = getTelegramUserIds(config);
+    const removedUserIds = getTelegramUserIds(previous).filter(id => !userIds.includes(id));
+    await step('refresh Telegram command menus', () => refreshCommandMenus(config, removedUserIds));
+  }
+
+  if (plan.reload) {
+    await step('restart config watcher', () => startConfigWatcher(config));
+  }
+
+  // API keys, portal and alert settings are read from the config on use
+  return errors;
+}
+
+async function runReload(): Promise<ConfigChangePlan> {
+  const path = getConfigPath();
+  logger.info({ component: 'reload', path }, 'Reloading configuration');
+
+  let next: Config;
+  try {
+    next = readConfigFile(path);
+  } catch (error) {
+    logger.error({ component: 'reload', path, error }, 'Configuration rejected, keeping the running configuration');
+    throw error;
+  }
+
+  // Compare against the running list, which includes proxies from sources
+  mergeSourceProxies(next);
+
+  const current = getConfig();
+  const previous: Config = { ...current };
+  const { plan, effective } = computeChangePlan(current, next);
+
+  if (plan.restart_required.length > 0) {
+    logger.warn(
+      { component: 'reload', settings: plan.restart_required },
+      'Some changed settings only take effect after a restart'
+    );
+  }
+
+  if (!hasChanges(plan)) {
+    logger.info({ component: 'reload' }, 'No changes to apply');
+    return plan;
+  }
+
+  logger.info({ component: 'reload', plan }, 'Applying configuration changes');
+  replaceConfig(effective);
+
+  const errors = await applyChangePlan(plan, previous, current);
+
+  if (errors.length > 0) {
+    logger.warn({ component: 'reload', errors }, 'Configuration reloaded with errors');
+  } else {
+    logger.info({ component: 'reload' }, 'Configuration reloaded');
+  }
+
+  return plan;
+}
+
+/**
+ * Re-read the config file and apply what changed. An invalid file is
+ * rejected and the running configuration stays in place. Reloads run one
+ * at a time.
+ */
+export function reloadConfig(): Promise<ConfigChangePlan> {
+  const reload = reloadQueue.then(runReload);
+  reloadQueue = reload.catch(() => {});
+  return reload;
+}
+
+/**
+ * Reload when the config file changes (reload.watch). Polls the file since
+ * editors often save by replacing it, which breaks inotify watches.
+ */
+export function startConfigWatcher(config: Config): void {
+  stopConfigWatcher();
+
+  if (!config.reload?.watch) {
+    return;
+  }
+
+  const path = getConfigPath();
+  watchFile(path, { interval: config.reload.interval_seconds * 1000 }, (currentStat, previousStat) => {
+    if (currentStat.mtimeMs === previousStat.mtimeMs) {
+      return;
+    }
+    logger.info({ component: 'reload', path }, 'Configuration file changed');
+    reloadConfig().catch(() => {
+      // Already logged, the running configuration stays in place
+    });
+  });
+  watchedPath = path;
+
+  logger.info({ component: 'reload', path, interval_seconds: config.reload.interval_seconds }, 'Watching configuration file');
+}
+
+export function stopConfigWatcher(): void {
+  if (watchedPath) {
+    unwatchFile(watchedPath);
+    watchedPath = null;
+  }
+}
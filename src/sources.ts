@@ -0,0 +1,443 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { logger } from './logger';
+import { Config, Proxy, ProxySource, ProxyType, PROXY_TYPES, getConfig, getProxyId, validateProxyUrl } from './config';
+import { replaceRemovedProxyForClient, applyUpdatedProxyForClient } from './proxy';
+import { runHealthChecks } from './health';
+import { pruneProxyHealth } from './state';
+import { getEnabledClients } from './registry';
+
+const PROXY_TYPE_SCHEMES: Record<ProxyType, string> = {
+  socks5: 'socks5',
+  socks4: 'socks4',
+  http: 'http',
+  shadowsocks: 'ss',
+};
+
+// One proxy as read from a list, before it is turned into a URL
+interface SourceEntry {
+  url?: string;
+  host?: string;
+  port?: string;
+  username?: string;
+  password?: string;
+  location?: string;
+  type?: string;
+}
+
+interface LoadedSource {
+  proxies: Proxy[];
+  loaded_at: string;
+}
+
+interface SourceCache {
+  sources: {
+    [sourceName: string]: LoadedSource;
+  };
+}
+
+let cachedSources: SourceCache | null = null;
+let staticProxies: Proxy[] = [];
+const refreshTimers = new Map<string, ReturnType<typeof setInterval>>();
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+function getSourceFilePath(): string {
+  const config = getConfig();
+  const dataDir = config.data?.dir || './data';
+  return join(dataDir, 'proxy_sources.json');
+}
+
+function loadSourceCache(): SourceCache {
+  if (cachedSources) {
+    return cachedSources;
+  }
+
+  const sourcePath = getSourceFilePath();
+
+  if (!existsSync(sourcePath)) {
+    cachedSources = { sources: {} };
+    return cachedSources;
+  }
+
+  try {
+    cachedSources = JSON.parse(readFileSync(sourcePath, 'utf-8')) as SourceCache;
+    // Caches written before proxies had IDs
+    for (const loaded of Object.values(cachedSources.sources)) {
+      loaded.proxies = loaded.proxies.map(proxy => ({ ...proxy, id: proxy.id || getProxyId(proxy.url) }));
+    }
+    logger.info({ component: 'sources', path: sourcePath }, 'Proxy source cache loaded from file');
+  } catch (error) {
+    // The cache only bridges outages of the sources, start empty
+    logger.error({ component: 'sources', error, path: sourcePath }, 'Failed to load proxy source cache, ignoring it');
+    cachedSources = { sources: {} };
+  }
+  return cachedSources;
+}
+
+function saveSourceCache(): void {
+  if (!cachedSources) {
+    return;
+  }
+
+  const sourcePath = getSourceFilePath();
+
+  try {
+    mkdirSync(dirname(sourcePath), { recursive: true });
+    writeFileSync(sourcePath, JSON.stringify(cachedSources, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    logger.debug({ component: 'sources', path: sourcePath }, 'Proxy source cache saved to file');
+  } catch (error) {
+    logger.error({ component: 'sources', error, path: sourcePath }, 'Failed to save proxy source cache');
+  }
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * host:port, host:port:user:pass or a full proxy URL
+ */
+function parsePlainLine(line: string): SourceEntry {
+  if (line.includes('://')) {
+    return { url: line };
+  }
+  const [host, port, username, ...password] = line.split(':');
+  return { host, port, username, password: password.length > 0 ? password.join(':') : undefined };
+}
+
+function getLines(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Read entries from a list in plain, CSV (with a header row) or JSON format
+ */
+export function parseSourceEntries(content: string, format: ProxySource['format']): SourceEntry[] {
+  if (format === 'plain') {
+    return getLines(content).map(parsePlainLine);
+  }
+
+  if (format === 'csv') {
+    const [header, ...rows] = getLines(content);
+    if (!header) {
+      return [];
+    }
+    const columns = splitCsvLine(header).map(column => column.toLowerCase());
+    const column = (fields: string[], ...names: string[]) => {
+      const index = columns.findIndex(name => names.includes(name));
+      return index >= 0 && fields[index] ? fields[index] : undefined;
+    };
+    return rows.map(row => {
+      const fields = splitCsvLine(row);
+      return {
+        url: column(fields, 'url'),
+        host: column(fields, 'host'),
+        port: column(fields, 'port'),
+        username: column(fields, 'username', 'user'),
+        password: column(fields, 'password', 'pass'),
+        location: column(fields, 'location'),
+        type: column(fields, 'type'),
+      };
+    });
+  }
+
+  const data = JSON.parse(content) as unknown;
+  const items = Array.isArray(data) ? data : (data as { proxies?: unknown })?.proxies;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON list must be an array or an object with a "proxies" array');
+  }
+  return items.map((item): SourceEntry => {
+    if (typeof item === 'string') {
+      return parsePlainLine(item.trim());
+    }
+    const value = (item ?? {}) as Record<string, unknown>;
+    const text = (...names: string[]) => {
+      const found = names.map(name => value[name]).find(v => typeof v === 'string' || typeof v === 'number');
+      return found === undefined ? undefined : String(found);
+    };
+    return {
+      url: text('url'),
+      host: text('host'),
+      port: text('port'),
+      username: text('username', 'user'),
+      password: text('password', 'pass'),
+      location: text('location'),
+      type: text('type'),
+    };
+  });
+}
+
+/**
+ * Turn an entry into a proxy, or explain why it was skipped
+ */
+function toProxy(entry: SourceEntry, source: ProxySource): Proxy | string {
+  const rawLocation = entry.location || source.location;
+  if (!rawLocation) {
+    return 'no location';
+  }
+  const location = source.location_map?.[rawLocation] ?? rawLocation;
+
+  let url = entry.url;
+  if (!url) {
+    const type = (entry.type || source.type) as ProxyType;
+    if (!PROXY_TYPES.includes(type)) {
+      return `unknown type ${entry.type}`;
+    }
+    if (!entry.host || !entry.port) {
+      return 'missing host or port';
+    }
+    const credentials = entry.username
+      ? `${encodeURIComponent(entry.username)}${entry.password ? `:${encodeURIComponent(entry.password)}` : ''}@`
+      : '';
+    const host = entry.host.includes(':') ? `[${entry.host}]` : entry.host;
+    url = `${PROXY_TYPE_SCHEMES[type]}://${credentials}${host}:${entry.port}`;
+  }
+
+  const error = validateProxyUrl(url);
+  return error ? error : { id: getProxyId(url), url, location };
+}
+
+async function readSource(source: ProxySource): Promise<string> {
+  if (source.file) {
+    return readFileSync(source.file, 'utf-8');
+  }
+
+  const response = await fetch(source.url!, {
+    headers: { 'User-Agent': 'wireguard-socks5-proxy', ...source.headers },
+    signal: AbortSignal.timeout(source.timeout_ms),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Load one source. Invalid entries are skipped; a source that cannot be
+ * read or yields no proxies fails as a whole.
+ */
+async function loadSource(source: ProxySource): Promise<Proxy[]> {
+  const entries = parseSourceEntries(await readSource(source), source.format);
+  const proxies: Proxy[] = [];
+  const skipped: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = toProxy(entry, source);
+    if (typeof result === 'string') {
+      skipped.push(`entry ${index + 1}: ${result}`);
+    } else if (!proxies.some(p => p.id === result.id)) {
+      proxies.push(result);
+    }
+  });
+
+  if (skipped.length > 0) {
+    // Reasons only, entries may contain credentials
+    logger.warn({ component: 'sources', source: source.name, skipped }, 'Skipped invalid proxy source entries');
+  }
+  if (proxies.length === 0) {
+    throw new Error('No valid proxies in source');
+  }
+  return proxies;
+}
+
+/**
+ * Static proxies from config.yaml followed by the loaded source proxies.
+ * A proxy ID listed more than once keeps its first URL and location.
+ */
+function mergeProxies(configProxies: Proxy[], sourceNames: string[]): Proxy[] {
+  const cache = loadSourceCache();
+  const merged: Proxy[] = [];
+  const seen = new Set<string>();
+
+  for (const proxy of [...configProxies, ...sourceNames.flatMap(name => cache.sources[name]?.proxies ?? [])]) {
+    if (!seen.has(proxy.id)) {
+      seen.add(proxy.id);
+      merged.push(proxy);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Add the proxies last loaded from its sources to a config read from disk.
+ * Used at startup and on reload, before the config is put in place.
+ */
+export function mergeSourceProxies(config: Config): void {
+  staticProxies = config.proxies;
+  config.proxies = mergeProxies(staticProxies, config.proxy_sources.map(s => s.name));
+}
+
+/**
+ * Rebuild the proxy list after a source changed. Once tunnels run, new
+ * proxies are checked right away and clients on a proxy that disappeared are
+ * moved to another one.
+ */
+async function updateProxyList(startup: boolean): Promise<void> {
+  const config = getConfig();
+  const previous = config.proxies;
+  const next = mergeProxies(staticProxies, config.proxy_sources.map(s => s.name));
+
+  const added = next.filter(p => !previous.some(old => old.id === p.id));
+  const removed = previous.filter(p => !next.some(proxy => proxy.id === p.id));
+  const relocated = next.filter(p => previous.some(old => old.id === p.id && old.location !== p.location));
+  const updated = next.filter(p => previous.some(old => old.id === p.id && old.url !== p.url));
+
+  if (added.length === 0 && removed.length === 0 && relocated.length === 0 && updated.length === 0) {
+    return;
+  }
+
+  config.proxies = next;
+  logger.info(
+    {
+      component: 'sources',
+      proxies: next.length,
+      added: added.map(p => p.id),
+      removed: removed.map(p => p.id),
+      relocated: relocated.map(p => p.id),
+      updated: updated.map(p => p.id), // New credentials
+    },
+    'Proxy list updated from sources'
+  );
+
+  // At startup the health checker and proxy restore run after this
+  if (startup) {
+    return;
+  }
+
+  try {
+    await runHealthChecks(config, [...added, ...updated]);
+  } catch (error) {
+    logger.error({ component: 'sources', error }, 'Error checking new proxies');
+  }
+
+  if (removed.length > 0) {
+    await pruneProxyHealth(next.map(p => p.id));
+    for (const client of getEnabledClients()) {
+      try {
+        await replaceRemovedProxyForClient(client.name, config);
+      } catch (error) {
+        logger.error({ component: 'sources', error, client: client.name }, 'Failed to move client off a removed proxy');
+      }
+    }
+  }
+
+  if (updated.length > 0) {
+    for (const client of getEnabledClients()) {
+      try {
+        await applyUpdatedProxyForClient(client.name, config);
+      } catch (error) {
+        logger.error({ component: 'sources', error, client: client.name }, 'Failed to restart tunnel with updated proxy');
+      }
+    }
+  }
+}
+
+/**
+ * Reload one source and apply the result. On failure the last loaded list
+ * stays in use.
+ */
+async function refreshSource(source: ProxySource, startup: boolean): Promise<void> {
+  try {
+    const proxies = await loadSource(source);
+    const cache = loadSourceCache();
+    cache.sources[source.name] = { proxies, loaded_at: new Date().toISOString() };
+    saveSourceCache();
+    logger.info({ component: 'sources', source: source.name, proxies: proxies.length }, 'Proxy source loaded');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(
+      { component: 'sources', source: source.name, error: message, cached_at: loadSourceCache().sources[source.name]?.loaded_at || null },
+      'Failed to load proxy source, keeping the last loaded list'
+    );
+    return;
+  }
+  await updateProxyList(startup);
+}
+
+/**
+ * Refreshes run one at a time so list updates never interleave
+ */
+function queueRefresh(source: ProxySource, startup: boolean): Promise<void> {
+  const refresh = updateQueue.then(() => refreshSource(source, startup));
+  updateQueue = refresh.catch(() => {});
+  return refresh;
+}
+
+/**
+ * Load every configured source once, then refresh each on its interval.
+ * Resolves after the initial load so the first assignments can use them.
+ * Pass startup while no tunnels run yet.
+ */
+export async function startProxySources(config: Config, startup: boolean): Promise<void> {
+  stopProxySources();
+
+  // Drop the proxies of sources that are no longer configured
+  const cache = loadSourceCache();
+  const removedSources = Object.keys(cache.sources).filter(name => !config.proxy_sources.some(s => s.name === name));
+  if (removedSources.length > 0) {
+    for (const name of removedSources) {
+      delete cache.sources[name];
+    }
+    saveSourceCache();
+  }
+
+  if (config.proxy_sources.length === 0) {
+    return;
+  }
+
+  await Promise.all(config.proxy_sources.map(source => queueRefresh(source, startup)));
+
+  for (const source of config.proxy_sources) {
+    refreshTimers.set(source.name, setInterval(() => {
+      queueRefresh(source, false).catch(error => {
+        logger.error({ component: 'sources', error, source: source.name }, 'Error refreshing proxy source');
+      });
+    }, source.refresh_seconds * 1000));
+  }
+
+  if (config.proxies.length === 0) {
+    logger.error({ component: 'sources' }, 'No proxies available from config.yaml or proxy sources');
+  }
+  logger.info(
+    { component: 'sources', sources: config.proxy_sources.map(s => ({ name: s.name, refresh_seconds: s.refresh_seconds })) },
+    'Proxy sources enabled'
+  );
+}
+
+export function stopProxySources(): void {
+  for (const timer of refreshTimers.values()) {
+    clearInterval(timer);
+  }
+  refreshTimers.clear();
+}
@@ -1,35 +1,69 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { logger } from './logger';
 import { join, dirname } from 'path';
-import { getConfig } from './config';
+import { getConfig, getProxyId } from './config';
 
 export interface ProxyUsageDates {
-  [proxyUrl: string]: string; // ISO timestamp
+  [proxyId: string]: string; // ISO timestamp
 }
 
 export interface RotationHistoryEntry {
   timestamp: string;
-  old_proxy: string;
-  new_proxy: string;
+  old_proxy: string; // Proxy ID
+  new_proxy: string; // Proxy ID
   old_location: string;
   new_location: string;
+  reason?: string;
+}
+
+export interface TemporarySwitch {
+  location: string;
+  revert_location: string; // Empty when the client had no location; it then gets any proxy
+  started_at: string;
+  revert_at: string;
 }
 
 export interface ClientState {
-  current_proxy: string;
+  current_proxy: string; // Proxy ID
   current_location: string;
   last_location: string;
   last_rotation: string;
   proxy_usage_dates: ProxyUsageDates;
   rotation_history: RotationHistoryEntry[];
+  temporary_switch?: TemporarySwitch; // Scheduled rotation is paused while set
+}
+
+export interface ProxyHealth {
+  healthy: boolean;
+  last_check: string;
+  last_success: string;
+  last_failure: string;
+  latency_ms: number | null;
+  consecutive_successes: number;
+  consecutive_failures: number;
+  last_error: string;
+  degraded_until?: string; // Set by markProxyDegraded, cleared by the next health check
+}
+
+export interface AlertMutes {
+  [target: string]: string; // Client name or "all" -> ISO timestamp the mute ends
 }
 
 export interface State {
   clients: {
     [clientName: string]: ClientState;
   };
+  proxy_health: {
+    [proxyId: string]: ProxyHealth;
+  };
+  alert_mutes: {
+    [telegramUserId: string]: AlertMutes;
+  };
 }
 
+// Without health checks nothing else clears a degraded mark, so it expires
+const DEGRADED_DURATION_MS = 10 * 60 * 1000;
+
 let cachedState: State | null = null;
 
 function getStateFilePath(): string {
@@ -47,7 +81,7 @@ export function loadState(): State {
   
   if (!existsSync(statePath)) {
     logger.info({ component: 'state', path: statePath }, 'State file does not exist, initializing empty state');
-    cachedState = { clients: {} };
+    cachedState = { clients: {}, proxy_health: {}, alert_mutes: {} };
     // Save state synchronously on initial load (before async functions are available)
     try {
       const stateDir = dirname(statePath);
@@ -62,11 +96,28 @@ export function loadState(): State {
   try {
     const fileContent = readFileSync(statePath, 'utf-8');
     cachedState = JSON.parse(fileContent) as State;
+    // State files written before health checks existed lack this section
+    if (!cachedState.proxy_health) {
+      cachedState.proxy_health = {};
+    }
+    if (!cachedState.alert_mutes) {
+      cachedState.alert_mutes = {};
+    }
+    const migrated = migrateProxyReferences(cachedState);
+    if (migrated > 0) {
+      try {
+        writeFileSync(statePath, JSON.stringify(cachedState, null, 2), 'utf-8');
+        logger.info({ component: 'state', path: statePath, references: migrated }, 'Migrated proxy URLs in state file to proxy IDs');
+      } catch (error) {
+        // Migrated in memory, the next save writes it out
+        logger.warn({ component: 'state', error, path: statePath }, 'Failed to save migrated state file');
+      }
+    }
     logger.info({ component: 'state', path: statePath }, 'State loaded from file');
     return cachedState;
   } catch (error) {
     logger.error({ component: 'state', error, path: statePath }, 'Failed to load state file, initializing empty state');
-    cachedState = { clients: {} };
+    cachedState = { clients: {}, proxy_health: {}, alert_mutes: {} };
     // Save state synchronously on initial load
     try {
       const stateDir = dirname(statePath);
@@ -79,6 +130,52 @@ export function loadState(): State {
   }
 }
 
+/**
+ * State files written before proxies had IDs refer to proxies by their full
+ * URL, credentials included. Rewrites those references to proxy IDs and
+ * returns how many were changed; IDs never contain credentials, so running it
+ * again changes nothing.
+ */
+function migrateProxyReferences(state: State): number {
+  const proxies = getConfig().proxies;
+  let migrated = 0;
+
+  const toProxyId = (reference: string): string => {
+    if (!reference || !reference.includes('://')) {
+      return reference;
+    }
+    const configured = proxies.find(p => p.url === reference);
+    const proxyId = configured ? configured.id : reference.includes('@') ? getProxyId(reference) : reference;
+    if (proxyId !== reference) {
+      migrated++;
+    }
+    return proxyId;
+  };
+
+  // URLs that only differed in their password end up under the same ID;
+  // `keep` picks which of the two values survives
+  const rekey = <T>(entries: Record<string, T>, keep: (a: T, b: T) => T): Record<string, T> => {
+    const result: Record<string, T> = {};
+    for (const [reference, value] of Object.entries(entries)) {
+      const proxyId = toProxyId(reference);
+      result[proxyId] = proxyId in result ? keep(result[proxyId], value) : value;
+    }
+    return result;
+  };
+
+  for (const clientState of Object.values(state.clients)) {
+    clientState.current_proxy = toProxyId(clientState.current_proxy);
+    clientState.proxy_usage_dates = rekey(clientState.proxy_usage_dates || {}, (a, b) => (a > b ? a : b));
+    for (const entry of clientState.rotation_history || []) {
+      entry.old_proxy = toProxyId(entry.old_proxy);
+      entry.new_proxy = toProxyId(entry.new_proxy);
+    }
+  }
+  state.proxy_health = rekey(state.proxy_health, (a, b) => (a.last_check > b.last_check ? a : b));
+
+  return migrated;
+}
+
 export async function saveState(): Promise<void> {
   if (!cachedState) {
     return;
@@ -127,12 +224,23 @@ export async function initializeClientState(clientName: string): Promise<ClientS
   return state.clients[clientName];
 }
 
+export async function removeClientState(clientName: string): Promise<void> {
+  const state = loadState();
+
+  if (state.clients[clientName]) {
+    delete state.clients[clientName];
+    await saveState();
+    logger.info({ component: 'state', client: clientName }, 'Removed state for client');
+  }
+}
+
 export async function updateClientProxy(
   clientName: string,
-  proxyUrl: string,
+  proxyId: string,
   location: string,
   oldProxy?: string,
-  oldLocation?: string
+  oldLocation?: string,
+  reason?: string
 ): Promise<void> {
   const state = loadState();
   const clientState = await initializeClientState(clientName);
@@ -140,7 +248,7 @@ export async function updateClientProxy(
   const now = new Date().toISOString();
   
   // Update current proxy and location
-  clientState.current_proxy = proxyUrl;
+  clientState.current_proxy = proxyId;
   clientState.current_location = location;
   clientState.last_rotation = now;
   
@@ -150,16 +258,17 @@ export async function updateClientProxy(
   }
   
   // Update proxy usage date
-  clientState.proxy_usage_dates[proxyUrl] = now;
+  clientState.proxy_usage_dates[proxyId] = now;
   
   // Add to rotation history if this is a rotation (not initial assignment)
-  if (oldProxy && oldProxy !== proxyUrl) {
+  if (oldProxy && oldProxy !== proxyId) {
     clientState.rotation_history.push({
       timestamp: now,
       old_proxy: oldProxy,
-      new_proxy: proxyUrl,
+      new_proxy: proxyId,
       old_location: oldLocation || '',
       new_location: location,
+      ...(reason ? { reason } : {}),
     });
     
     // Keep only last 100 rotation history entries
@@ -170,11 +279,184 @@ export async function updateClientProxy(
   
   await saveState();
   logger.info(
-    { component: 'state', client: clientName, proxy: proxyUrl, location },
+    { component: 'state', client: clientName, proxy: proxyId, location },
     'Updated client proxy assignment'
   );
 }
 
+/**
+ * Store or clear (null) a client's temporary location switch
+ */
+export async function setTemporarySwitch(clientName: string, temporarySwitch: TemporarySwitch | null): Promise<void> {
+  const clientState = await initializeClientState(clientName);
+
+  if (temporarySwitch) {
+    clientState.temporary_switch = temporarySwitch;
+  } else {
+    delete clientState.temporary_switch;
+  }
+  await saveState();
+}
+
+function createProxyHealth(): ProxyHealth {
+  return {
+    healthy: true,
+    last_check: '',
+    last_success: '',
+    last_failure: '',
+    latency_ms: null,
+    consecutive_successes: 0,
+    consecutive_failures: 0,
+    last_error: '',
+  };
+}
+
+export function getProxyHealth(proxyId: string): ProxyHealth | undefined {
+  const state = loadState();
+  return state.proxy_health[proxyId];
+}
+
+/**
+ * Record the outcome of a proxy health check in memory and return the
+ * updated entry. The caller saves the state once its round of checks is done.
+ * A proxy flips to unhealthy after `unhealthyThreshold` consecutive failures
+ * and back to healthy after `healthyThreshold` consecutive successes.
+ */
+export function recordProxyHealthCheck(
+  proxyId: string,
+  result: { success: boolean; latencyMs?: number; error?: string },
+  thresholds: { unhealthyThreshold: number; healthyThreshold: number }
+): ProxyHealth {
+  const state = loadState();
+  const now = new Date().toISOString();
+
+  const health = state.proxy_health[proxyId] || createProxyHealth();
+
+  health.last_check = now;
+  // From here on the checks decide when the proxy is usable again
+  delete health.degraded_until;
+
+  if (result.success) {
+    health.last_success = now;
+    health.latency_ms = result.latencyMs ?? null;
+    health.consecutive_successes += 1;
+    health.consecutive_failures = 0;
+    if (!health.healthy && health.consecutive_successes >= thresholds.healthyThreshold) {
+      health.healthy = true;
+    }
+  } else {
+    health.last_failure = now;
+    health.latency_ms = null;
+    health.last_error = result.error || 'Unknown error';
+    health.consecutive_failures += 1;
+    health.consecutive_successes = 0;
+    if (health.healthy && health.consecutive_failures >= thresholds.unhealthyThreshold) {
+      health.healthy = false;
+    }
+  }
+
+  state.proxy_health[proxyId] = health;
+
+  return health;
+}
+
+/**
+ * Mark a proxy unhealthy outside of the regular health checks, e.g. when a
+ * tunnel through it keeps failing. The health checker restores it once it
+ * passes `healthy_threshold` consecutive checks; without health checks the
+ * mark expires after DEGRADED_DURATION_MS.
+ */
+export async function markProxyDegraded(proxyId: string, reason: string): Promise<void> {
+  const state = loadState();
+  const now = new Date().toISOString();
+
+  const health = state.proxy_health[proxyId] || createProxyHealth();
+
+  health.healthy = false;
+  health.last_failure = now;
+  health.last_error = reason;
+  health.consecutive_successes = 0;
+  health.degraded_until = new Date(Date.now() + DEGRADED_DURATION_MS).toISOString();
+
+  state.proxy_health[proxyId] = health;
+  await saveState();
+  logger.warn({ component: 'state', proxy: proxyId, reason, until: health.degraded_until }, 'Proxy marked degraded');
+}
+
+/**
+ * Drop health entries of proxies that are no longer configured
+ */
+export async function pruneProxyHealth(proxyIds: string[]): Promise<void> {
+  const state = loadState();
+  const removed = Object.keys(state.proxy_health).filter(proxyId => !proxyIds.includes(proxyId));
+  if (removed.length === 0) {
+    return;
+  }
+
+  for (const proxyId of removed) {
+    delete state.proxy_health[proxyId];
+  }
+  await saveState();
+  logger.debug({ component: 'state', proxies: removed }, 'Removed health of proxies no longer configured');
+}
+
+/**
+ * Active alert mutes of a Telegram user. Expired mutes are dropped.
+ */
+export function getAlertMutes(userId: number): AlertMutes {
+  const state = loadState();
+  const mutes = state.alert_mutes[userId] || {};
+  const now = Date.now();
+
+  for (const [target, until] of Object.entries(mutes)) {
+    if (new Date(until).getTime() <= now) {
+      delete mutes[target];
+    }
+  }
+
+  return mutes;
+}
+
+/**
+ * Whether alerts about a client (or about no client in particular, when null)
+ * are muted for a Telegram user
+ */
+export function isAlertMuted(userId: number, clientName: string | null): boolean {
+  const mutes = getAlertMutes(userId);
+  return Boolean(mutes.all || (clientName && mutes[clientName]));
+}
+
+export async function setAlertMute(userId: number, target: string, until: Date): Promise<void> {
+  const state = loadState();
+
+  state.alert_mutes[userId] = { ...getAlertMutes(userId), [target]: until.toISOString() };
+  await saveState();
+  logger.info({ component: 'state', user_id: userId, target, until: until.toISOString() }, 'Alerts muted');
+}
+
+/**
+ * Remove one mute, or all of a user's mutes when no target is given.
+ * Returns the number of mutes removed.
+ */
+export async function removeAlertMutes(userId: number, target?: string): Promise<number> {
+  const state = loadState();
+  const mutes = getAlertMutes(userId);
+  const targets = target ? Object.keys(mutes).filter(t => t === target) : Object.keys(mutes);
+
+  for (const t of targets) {
+    delete mutes[t];
+  }
+  if (Object.keys(mutes).length === 0) {
+    delete state.alert_mutes[userId];
+  } else {
+    state.alert_mutes[userId] = mutes;
+  }
+  await saveState();
+
+  logger.info({ component: 'state', user_id: userId, targets }, 'Alerts unmuted');
+  return targets.length;
+}
+
 export function getState(): State {
   return loadState();
 }
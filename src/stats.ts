@@ -0,0 +1,162 @@
+import { Config } from './config';
+import { ClientState, getClientState } from './state';
+import { getRegisteredClient } from './registry';
+
+export interface ClientUsageStats {
+  client: string;
+  rotations: number;
+  rotations_by_reason: Record<string, number>; // scheduled, manual, tunnel_failure, proxy_removed or unknown
+  location_seconds: Record<string, number>;
+}
+
+export interface LocationUsageStats {
+  location: string;
+  seconds: number;
+  clients: number;
+}
+
+export interface ProxyUsageStats {
+  proxy: string; // Proxy ID
+  location: string;
+  seconds: number;
+  assignments: number;
+  last_used: string | null; // From proxy_usage_dates
+}
+
+export interface UsageStats {
+  since: string | null; // Start of the oldest recorded period
+  clients: ClientUsageStats[];
+  locations: LocationUsageStats[]; // Most used first
+  proxies: ProxyUsageStats[]; // Most used first
+}
+
+interface UsagePeriod {
+  proxy: string;
+  location: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Reconstruct which proxy a client used when from its rotation history. The
+ * proxy replaced by the oldest entry counts from its usage date, when that is
+ * earlier; the current proxy counts until the client was disabled, or until
+ * now while it is enabled or its disable time is not recorded.
+ */
+function getUsagePeriods(clientName: string, clientState: ClientState, now: number): UsagePeriod[] {
+  const history = clientState.rotation_history;
+  const registered = getRegisteredClient(clientName);
+  const currentEnd = registered && !registered.enabled && registered.disabled_at
+    ? new Date(registered.disabled_at).getTime()
+    : now;
+
+  if (history.length === 0) {
+    if (!clientState.current_proxy || !clientState.last_rotation) {
+      return [];
+    }
+    const start = new Date(clientState.last_rotation).getTime();
+    return [{ proxy: clientState.current_proxy, location: clientState.current_location, start, end: Math.max(start, currentEnd) }];
+  }
+
+  const periods: UsagePeriod[] = [];
+  const first = history[0];
+  const firstRotation = new Date(first.timestamp).getTime();
+  const oldProxyUsed = clientState.proxy_usage_dates[first.old_proxy];
+  if (first.old_proxy && oldProxyUsed && new Date(oldProxyUsed).getTime() < firstRotation) {
+    periods.push({ proxy: first.old_proxy, location: first.old_location, start: new Date(oldProxyUsed).getTime(), end: firstRotation });
+  }
+
+  history.forEach((entry, index) => {
+    const start = new Date(entry.timestamp).getTime();
+    const next = history[index + 1];
+    const end = next ? new Date(next.timestamp).getTime() : Math.max(start, currentEnd);
+    periods.push({ proxy: entry.new_proxy, location: entry.new_location, start, end });
+  });
+
+  return periods;
+}
+
+/**
+ * Time in use and rotation counts for the given clients, computed from
+ * rotation history (the last 100 rotations per client) and proxy usage
+ * dates. With includeUnusedProxies, configured proxies that were never used
+ * are listed with zeros.
+ */
+export function computeUsageStats(clientNames: string[], config: Config, includeUnusedProxies: boolean): UsageStats {
+  const now = Date.now();
+  const clients: ClientUsageStats[] = [];
+  const locations = new Map<string, LocationUsageStats & { clientNames: Set<string> }>();
+  const proxies = new Map<string, ProxyUsageStats>();
+  let since: number | null = null;
+
+  const getProxyStats = (proxyId: string, location: string): ProxyUsageStats => {
+    let stats = proxies.get(proxyId);
+    if (!stats) {
+      stats = { proxy: proxyId, location, seconds: 0, assignments: 0, last_used: null };
+      proxies.set(proxyId, stats);
+    }
+    return stats;
+  };
+
+  if (includeUnusedProxies) {
+    for (const proxy of config.proxies) {
+      getProxyStats(proxy.id, proxy.location);
+    }
+  }
+
+  for (const clientName of clientNames) {
+    const clientState = getClientState(clientName);
+    const clientStats: ClientUsageStats = {
+      client: clientName,
+      rotations: 0,
+      rotations_by_reason: {},
+      location_seconds: {},
+    };
+    clients.push(clientStats);
+
+    if (!clientState) {
+      continue;
+    }
+
+    clientStats.rotations = clientState.rotation_history.length;
+    for (const entry of clientState.rotation_history) {
+      const reason = entry.reason || 'unknown';
+      clientStats.rotations_by_reason[reason] = (clientStats.rotations_by_reason[reason] || 0) + 1;
+    }
+
+    for (const period of getUsagePeriods(clientName, clientState, now)) {
+      const seconds = Math.floor((period.end - period.start) / 1000);
+      since = since === null ? period.start : Math.min(since, period.start);
+
+      clientStats.location_seconds[period.location] = (clientStats.location_seconds[period.location] || 0) + seconds;
+
+      let locationStats = locations.get(period.location);
+      if (!locationStats) {
+        locationStats = { location: period.location, seconds: 0, clients: 0, clientNames: new Set() };
+        locations.set(period.location, locationStats);
+      }
+      locationStats.seconds += seconds;
+      locationStats.clientNames.add(clientName);
+
+      const proxyStats = getProxyStats(period.proxy, period.location);
+      proxyStats.seconds += seconds;
+      proxyStats.assignments += 1;
+    }
+
+    for (const [proxyId, usedAt] of Object.entries(clientState.proxy_usage_dates)) {
+      const proxyStats = proxies.get(proxyId);
+      if (proxyStats && (!proxyStats.last_used || usedAt > proxyStats.last_used)) {
+        proxyStats.last_used = usedAt;
+      }
+    }
+  }
+
+  return {
+    since: since === null ? null : new Date(since).toISOString(),
+    clients,
+    locations: [...locations.values()]
+      .map(({ clientNames: names, ...stats }) => ({ ...stats, clients: names.size }))
+      .sort((a, b) => b.seconds - a.seconds),
+    proxies: [...proxies.values()].sort((a, b) => b.seconds - a.seconds || b.assignments - a.assignments),
+  };
+}
@@ -0,0 +1,136 @@
+import { logger } from './logger';
+import { getClientState, setTemporarySwitch, getState, TemporarySwitch } from './state';
+import { rotateProxyForClient, getCurrentProxy } from './proxy';
+import { isClientEnabled } from './registry';
+import { ClientConflictError } from './errors';
+
+export const MAX_SWITCH_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // Also keeps timers within setTimeout's range
+
+const revertTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function getTemporarySwitch(clientName: string): TemporarySwitch | null {
+  return getClientState(clientName)?.temporary_switch || null;
+}
+
+function scheduleRevert(clientName: string, temporarySwitch: TemporarySwitch): void {
+  const existing = revertTimers.get(clientName);
+  if (existing) {
+    clearTimeout(existing);
+  }
+
+  const delayMs = Math.max(0, new Date(temporarySwitch.revert_at).getTime() - Date.now());
+  const timer = setTimeout(() => {
+    revertTimers.delete(clientName);
+    revertTemporarySwitch(clientName).catch(error => {
+      logger.error({ component: 'switch', error, client: clientName }, 'Failed to revert temporary location switch');
+    });
+  }, delayMs);
+  revertTimers.set(clientName, timer);
+}
+
+/**
+ * End a client's temporary switch and move it back to the location it had
+ * before. Returns false when no switch was active.
+ */
+export async function revertTemporarySwitch(clientName: string): Promise<boolean> {
+  const timer = revertTimers.get(clientName);
+  if (timer) {
+    clearTimeout(timer);
+    revertTimers.delete(clientName);
+  }
+
+  const temporarySwitch = getTemporarySwitch(clientName);
+  if (!temporarySwitch) {
+    return false;
+  }
+
+  // Cleared first so a failing rotation does not leave the scheduler paused
+  await setTemporarySwitch(clientName, null);
+
+  if (!isClientEnabled(clientName)) {
+    logger.info({ component: 'switch', client: clientName }, 'Temporary switch ended for a disabled client');
+    return true;
+  }
+
+  const revertLocation = temporarySwitch.revert_location || undefined;
+  if (revertLocation && getCurrentProxy(clientName)?.location === revertLocation) {
+    logger.info({ component: 'switch', client: clientName, location: revertLocation }, 'Temporary switch ended, already in original location');
+    return true;
+  }
+
+  await rotateProxyForClient(clientName, revertLocation, true);
+
+  const location = getCurrentProxy(clientName)?.location;
+  if (revertLocation && location !== revertLocation) {
+    logger.warn(
+      { component: 'switch', client: clientName, revert_location: revertLocation, location },
+      'No healthy proxy in original location, client stays where it is'
+    );
+  } else {
+    logger.info({ component: 'switch', client: clientName, location }, 'Temporary location switch reverted');
+  }
+  return true;
+}
+
+/**
+ * Move a client to a location for a limited time. Starting a new switch
+ * while one is active keeps the original location to return to.
+ */
+export async function startTemporarySwitch(
+  clientName: string,
+  location: string,
+  durationMs: number
+): Promise<TemporarySwitch> {
+  if (!isClientEnabled(clientName)) {
+    throw new ClientConflictError(`Client ${clientName} is disabled or does not exist`);
+  }
+
+  const existing = getTemporarySwitch(clientName);
+  const revertLocation = existing ? existing.revert_location : getCurrentProxy(clientName)?.location || '';
+
+  if (getCurrentProxy(clientName)?.location !== location) {
+    await rotateProxyForClient(clientName, location);
+    if (getCurrentProxy(clientName)?.location !== location) {
+      throw new ClientConflictError(`No healthy proxy available in ${location}`);
+    }
+  }
+
+  const now = new Date();
+  const temporarySwitch: TemporarySwitch = {
+    location,
+    revert_location: revertLocation,
+    started_at: now.toISOString(),
+    revert_at: new Date(now.getTime() + durationMs).toISOString(),
+  };
+  await setTemporarySwitch(clientName, temporarySwitch);
+  scheduleRevert(clientName, temporarySwitch);
+
+  logger.info(
+    { component: 'switch', client: clientName, location, revert_location: revertLocation, revert_at: temporarySwitch.revert_at },
+    'Temporary location switch started'
+  );
+  return temporarySwitch;
+}
+
+/**
+ * Re-arm revert timers for switches stored in state. Switches that expired
+ * while the daemon was down are reverted right away.
+ */
+export function resumeTemporarySwitches(): void {
+  for (const [clientName, clientState] of Object.entries(getState().clients)) {
+    if (clientState.temporary_switch) {
+      scheduleRevert(clientName, clientState.temporary_switch);
+      logger.info(
+        { component: 'switch', client: clientName, revert_at: clientState.temporary_switch.revert_at },
+        'Resumed temporary location switch'
+      );
+    }
+  }
+}
+
+export function stopTemporarySwitches(): void {
+  for (const timer of revertTimers.values()) {
+    clearTimeout(timer);
+  }
+  revertTimers.clear();
+}
@@ -1,28 +1,298 @@
 import { Bot, Context, InputFile, InlineKeyboard } from 'grammy';
 import { logger } from './logger';
-import { Config, getConfig } from './config';
-import { getAllClients, getClientConfig } from './client';
+import { Config, getConfig, getProxyType, TelegramRole } from './config';
+import { getAllClients, getClientConfig, createClient, disableClient, enableClient, deleteClient } from './client';
 import { generateQRCode } from './qr';
-import { rotateProxyForClient, getCurrentProxy } from './proxy';
-import { getWireGuardStatus } from './wireguard';
-import { getState } from './state';
+import { rotateProxyForClient, getCurrentProxy, getProxyLocations } from './proxy';
+import { getPeerStatuses, getClientPeerStatus, PeerStatus } from './wireguard';
+import { getState, getClientState, getAlertMutes, setAlertMute, removeAlertMutes, isAlertMuted } from './state';
+import { getRegisteredClients, getRegisteredClient } from './registry';
+import { createPortalLink, revokePortalLink, getPortalLocations, getPortalUrl } from './portal';
+import { computeUsageStats } from './stats';
+import { startTemporarySwitch, revertTemporarySwitch, getTemporarySwitch, MAX_SWITCH_DURATION_MS } from './switch';
 
 type AuthorizedContext = Context & {
   from: NonNullable<Context['from']>;
 };
 
-function isAuthorized(ctx: Context): ctx is AuthorizedContext {
+const ROLE_LEVELS: Record<TelegramRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+interface UserAccess {
+  role: TelegramRole;
+  clients: string[] | null; // null means every client
+}
+
+interface BotCommand {
+  command: string;
+  args?: string;
+  description: string;
+  example?: string;
+  role: TelegramRole;
+}
+
+// Shown in /start, /help and the per-user command menu, filtered by role
+const BOT_COMMANDS: BotCommand[] = [
+  { command: 'help', description: 'Show available commands', role: 'viewer' },
+  { command: 'menu', description: 'Interactive menu with buttons to switch client locations', example: '/menu', role: 'operator' },
+  { command: 'clients', description: 'List WireGuard clients', example: '/clients', role: 'viewer' },
+  { command: 'client', args: '<name>', description: 'Client information including config and current proxy', example: '/client client1', role: 'viewer' },
+  { command: 'qr', args: '<name>', description: 'QR code image for a client configuration', example: '/qr client1', role: 'viewer' },
+  { command: 'history', args: '<name> [page]', description: 'Rotation history of a client, newest first', example: '/history client1', role: 'viewer' },
+  { command: 'stats', description: 'Time in use per client and location, rotations and most/least used proxies', example: '/stats', role: 'viewer' },
+  { command: 'rotate', args: '<name> [location]', description: 'Rotate proxy for a client (optionally filter by location)', example: '/rotate client1 US', role: 'operator' },
+  { command: 'switch', args: '<name> <location> for <duration>', description: 'Switch a client to a location for a while, then back (cancel with /switch <name> cancel)', example: '/switch client1 US for 2h', role: 'operator' },
+  { command: 'status', description: 'WireGuard server status and per-client peer status', example: '/status', role: 'viewer' },
+  { command: 'proxies', description: 'List available proxies by location', example: '/proxies', role: 'operator' },
+  { command: 'addclient', args: '<name>', description: 'Create a new client with fresh keys and a proxy', example: '/addclient alice', role: 'admin' },
+  { command: 'disable', args: '<name>', description: 'Disable a client: removes its peer and tunnel, keeps its keys', role: 'admin' },
+  { command: 'enable', args: '<name>', description: 'Re-enable a disabled client', role: 'admin' },
+  { command: 'deleteclient', args: '<name>', description: 'Delete a client created via bot or API, including its keys', role: 'admin' },
+  { command: 'portal', args: '<name> [locations]', description: 'Create (or replace) a self-service link for a client; optionally limit locations, e.g. US,DE', example: '/portal alice US,DE', role: 'admin' },
+  { command: 'revokeportal', args: '<name>', description: "Revoke a client's self-service link", role: 'admin' },
+  { command: 'mute', args: '<name|all> <duration>', description: 'Silence alerts and notifications, e.g. for 2h or 1d', example: '/mute client1 2h', role: 'viewer' },
+  { command: 'unmute', args: '[name|all]', description: 'Turn alerts back on (all mutes when no name is given)', role: 'viewer' },
+];
+
+const HISTORY_PAGE_SIZE = 5;
+const STATS_PROXY_LIMIT = 3; // Proxies shown in each of the most/least used lists
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Role and client scope of a Telegram user, or null when they have no access.
+ * Users in admin_user_ids are admins for every client. Other users without a
+ * `clients` list only get every client if they are admins, otherwise none.
+ */
+function getUserAccess(userId: number | undefined): UserAccess | null {
   const config = getConfig();
+  if (!config.telegram || !userId) {
+    return null;
+  }
+
+  if (config.telegram.admin_user_ids.includes(userId)) {
+    return { role: 'admin', clients: null };
+  }
+
+  const user = config.telegram.users.find(u => u.id === userId);
+  if (!user) {
+    return null;
+  }
+  return { role: user.role, clients: user.clients ?? (user.role === 'admin' ? null : []) };
+}
+
+function isAuthorized(ctx: Context): ctx is AuthorizedContext {
+  return getUserAccess(ctx.from?.id) !== null;
+}
+
+function hasRole(access: UserAccess, role: TelegramRole): boolean {
+  return ROLE_LEVELS[access.role] >= ROLE_LEVELS[role];
+}
+
+function canAccessClient(access: UserAccess, clientName: string): boolean {
+  return access.clients === null || access.clients.includes(clientName);
+}
+
+/**
+ * Check that the sender has at least the given role and, if a client is
+ * named, may touch it. Replies (or answers the callback query) when denied.
+ * Clients outside the user's scope are reported as not found so their names
+ * do not leak.
+ */
+async function authorize(ctx: Context, role: TelegramRole, clientName?: string): Promise<UserAccess | null> {
+  const access = getUserAccess(ctx.from?.id);
+  let denied: string | null = null;
+
+  if (!access) {
+    denied = 'Whoe are you? 🤨';
+  } else if (!hasRole(access, role)) {
+    denied = `This requires the ${role} role.`;
+  } else if (clientName !== undefined && !canAccessClient(access, clientName)) {
+    denied = `Client "${clientName}" not found.`;
+  }
+
+  if (!denied) {
+    return access;
+  }
+
+  logger.warn(
+    { component: 'telegram', user_id: ctx.from?.id, role: access?.role, required_role: role, client: clientName },
+    'Telegram action denied'
+  );
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery({ text: denied, show_alert: true });
+  } else {
+    await ctx.reply(denied);
+  }
+  return null;
+}
+
+function getCommandsForRole(role: TelegramRole): BotCommand[] {
+  return BOT_COMMANDS.filter(command => ROLE_LEVELS[role] >= ROLE_LEVELS[command.role]);
+}
+
+function formatCommandList(role: TelegramRole): string {
+  return getCommandsForRole(role)
+    .map(command => `/${command.command}${command.args ? ` ${command.args}` : ''} - ${command.description}`)
+    .join('\n');
+}
+
+function formatCommandExamples(role: TelegramRole): string {
+  return getCommandsForRole(role)
+    .filter(command => command.example)
+    .map(command => `• ${command.example}`)
+    .join('\n');
+}
+
+/**
+ * Client buttons for /menu, two per row
+ */
+function buildClientKeyboard(clients: string[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+
+  for (let i = 0; i < clients.length; i += 2) {
+    keyboard.text(clients[i], `client:${clients[i]}`);
+    if (i + 1 < clients.length) {
+      keyboard.text(clients[i + 1], `client:${clients[i + 1]}`);
+    }
+    if (i + 2 < clients.length) {
+      keyboard.row();
+    }
+  }
+
+  return keyboard;
+}
+
+/**
+ * Give every configured user a command menu that only lists what their role
+ * allows. Users who never opened a chat with the bot cannot get one yet.
+ */
+async function syncCommandMenus(bot: Bot, config: Config): Promise<void> {
   if (!config.telegram) {
-    return false;
+    return;
   }
-  
-  const userId = ctx.from?.id;
-  if (!userId) {
-    return false;
+
+  // Unknown users get no menu at all
+  await bot.api.deleteMyCommands();
+
+  const userIds = [...new Set([...config.telegram.admin_user_ids, ...config.telegram.users.map(u => u.id)])];
+  for (const userId of userIds) {
+    const access = getUserAccess(userId);
+    if (!access) {
+      continue;
+    }
+    try {
+      await bot.api.setMyCommands(
+        getCommandsForRole(access.role).map(command => ({ command: command.command, description: command.description })),
+        { scope: { type: 'chat', chat_id: userId } }
+      );
+    } catch (error) {
+      logger.warn({ component: 'telegram', error, user_id: userId }, 'Failed to set command menu for user');
+    }
+  }
+}
+
+/**
+ * Format a byte count as a human readable size, e.g. 1.2 GB
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${unitIndex === 0 ? value : value.toFixed(1)} ${units[unitIndex]}`;
+}
+
+/**
+ * Format an age in seconds, e.g. 40s, 5m, 3h, 2d
+ */
+function formatAge(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m`;
+  }
+  if (seconds < 86400) {
+    return `${Math.floor(seconds / 3600)}h`;
+  }
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+/**
+ * Escape text for legacy Markdown messages, e.g. client names with underscores
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`[])/g, '\\$1');
+}
+
+/**
+ * Inline code for legacy Markdown messages. Escapes do not work inside code,
+ * so backticks are replaced instead.
+ */
+export function formatMarkdownCode(text: string): string {
+  return `\`${text.replace(/`/g, "'")}\``;
+}
+
+/**
+ * One page (1-based) of a client's rotation history, newest first
+ */
+function buildHistoryPage(clientName: string, page: number): { text: string; keyboard: InlineKeyboard } {
+  const history = [...(getClientState(clientName)?.rotation_history || [])].reverse();
+  const pageCount = Math.max(1, Math.ceil(history.length / HISTORY_PAGE_SIZE));
+  const current = Math.min(Math.max(page, 1), pageCount);
+  const entries = history.slice((current - 1) * HISTORY_PAGE_SIZE, current * HISTORY_PAGE_SIZE);
+
+  let text = `*Rotation History: ${escapeMarkdown(clientName)}*\n`;
+  if (history.length === 0) {
+    text += `\nNo rotations yet.`;
+  } else {
+    text += `Page ${current}/${pageCount}, ${history.length} entries\n`;
+    for (const entry of entries) {
+      text += `\n*${new Date(entry.timestamp).toLocaleString()}* (${(entry.reason || 'unknown').replace(/_/g, ' ')})\n`;
+      text += `${escapeMarkdown(entry.old_location || 'None')} → ${escapeMarkdown(entry.new_location)}\n`;
+      text += `${formatMarkdownCode(entry.old_proxy)} → ${formatMarkdownCode(entry.new_proxy)}\n`;
+    }
+  }
+
+  const keyboard = new InlineKeyboard();
+  if (current > 1) {
+    keyboard.text('‹ Newer', `history:${clientName}:${current - 1}`);
   }
-  
-  return config.telegram.admin_user_ids.includes(userId);
+  if (current < pageCount) {
+    keyboard.text('Older ›', `history:${clientName}:${current + 1}`);
+  }
+
+  return { text, keyboard };
+}
+
+/**
+ * Parse a duration such as 30m, 2h or 1d into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(value);
+  return match && Number(match[1]) > 0 ? Number(match[1]) * DURATION_UNITS[match[2]] : null;
+}
+
+/**
+ * Summarize a peer, e.g. "online, last handshake 40s ago, 1.2 GB down, 80.0 MB up"
+ */
+function formatPeerStatus(peer: PeerStatus): string {
+  const handshake = peer.handshake_age_seconds !== null
+    ? `last handshake ${formatAge(peer.handshake_age_seconds)} ago`
+    : 'no handshake yet';
+  // tx/rx are from the server's side: what it sends is the client's download
+  return `${peer.online ? 'online' : 'offline'}, ${handshake}, ${formatBytes(peer.tx_bytes)} down, ${formatBytes(peer.rx_bytes)} up`;
 }
 
 // Store bot instance for notifications
@@ -52,23 +322,17 @@ export function createTelegramBot(config: Config): void {
 
   // Start command
   bot.command('start', async (ctx) => {
-    const helpText = `Welcome to WireGuard Proxy Manager Bot! 🚀
-
-Available commands:
-/help - Show this help message
-/menu - Open interactive menu to switch locations
-/clients - List all WireGuard clients
-/client <name> - Get client info and config
-/qr <name> - Get QR code for client config
-/rotate <name> [location] - Rotate proxy for a client
-/status - Get WireGuard server status
-/proxies - List all available proxies
-
-Example:
-/client client1
-/qr client1
-/rotate client1 US
-/menu - Use buttons to switch locations`;
+    const access = await authorize(ctx, 'viewer');
+    if (!access) {
+      return;
+    }
+
+    let helpText = `Welcome to WireGuard Proxy Manager Bot! 🚀\n\n`;
+    helpText += `Your role: ${access.role}\n`;
+    if (access.clients) {
+      helpText += `Your clients: ${access.clients.length > 0 ? access.clients.join(', ') : 'none'}\n`;
+    }
+    helpText += `\nAvailable commands:\n${formatCommandList(access.role)}\n\nExamples:\n${formatCommandExamples(access.role)}`;
 
     await ctx.reply(helpText);
     logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'start' }, 'Start command executed');
@@ -76,25 +340,12 @@ Example:
 
   // Help command
   bot.command('help', async (ctx) => {
-    const helpText = `Available commands:
-
-/menu - Open interactive menu with buttons to switch client locations
-/clients - List all WireGuard clients
-/client <name> - Get detailed client information including config and current proxy
-/qr <name> - Generate and send QR code image for client configuration
-/rotate <name> [location] - Rotate proxy for a client (optionally filter by location)
-/status - Get WireGuard server status and interface information
-/proxies - List all available proxies with their locations
-
-Examples:
-• /menu - Use buttons to switch locations
-• /clients
-• /client client1
-• /qr client1
-• /rotate client1
-• /rotate client1 US
-• /status
-• /proxies`;
+    const access = await authorize(ctx, 'viewer');
+    if (!access) {
+      return;
+    }
+
+    const helpText = `Available commands:\n\n${formatCommandList(access.role)}\n\nExamples:\n${formatCommandExamples(access.role)}`;
 
     await ctx.reply(helpText);
     logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'help' }, 'Help command executed');
@@ -103,14 +354,21 @@ Examples:
   // List clients command
   bot.command('clients', async (ctx) => {
     try {
-      const clients = getAllClients();
+      const access = await authorize(ctx, 'viewer');
+      if (!access) {
+        return;
+      }
+
+      const clients = getRegisteredClients().filter(client => canAccessClient(access, client.name));
       
       if (clients.length === 0) {
         await ctx.reply('No clients configured.');
         return;
       }
 
-      const clientsList = clients.map((name, index) => `${index + 1}. ${name}`).join('\n');
+      const clientsList = clients
+        .map((client, index) => `${index + 1}. ${client.name}${client.enabled ? '' : ' (disabled)'}`)
+        .join('\n');
       await ctx.reply(`WireGuard Clients:\n\n${clientsList}`);
       logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'clients' }, 'Clients list sent');
     } catch (error) {
@@ -130,6 +388,11 @@ Examples:
         return;
       }
 
+      const access = await authorize(ctx, 'viewer', clientName);
+      if (!access) {
+        return;
+      }
+
       const clientConfig = getClientConfig(clientName);
       if (!clientConfig) {
         await ctx.reply(`Client "${clientName}" not found.`);
@@ -140,23 +403,32 @@ Examples:
       const state = getState();
       const clientState = state.clients[clientName];
 
-      let response = `*Client: ${clientName}*\n\n`;
+      let response = `*Client: ${escapeMarkdown(clientName)}*\n\n`;
       
       if (currentProxy) {
         response += `*Current Proxy:*\n`;
-        response += `Location: ${currentProxy.location}\n`;
-        response += `URL: \`${currentProxy.url}\`\n\n`;
+        response += `Location: ${escapeMarkdown(currentProxy.location)}\n`;
+        response += `ID: ${formatMarkdownCode(currentProxy.id)}\n\n`;
       } else {
         response += `*Current Proxy:* Not assigned\n\n`;
       }
 
+      const temporarySwitch = getTemporarySwitch(clientName);
+      if (temporarySwitch) {
+        response += `*Temporary Switch:* until ${new Date(temporarySwitch.revert_at).toLocaleString()}, `;
+        response += `then back to ${escapeMarkdown(temporarySwitch.revert_location || 'any location')}\n\n`;
+      }
+
+      const peer = getClientPeerStatus(clientName, getConfig());
+      response += `*Peer:* ${peer ? formatPeerStatus(peer) : 'not connected to interface'}\n`;
+
       if (clientState) {
         if (clientState.last_rotation) {
           const lastRotation = new Date(clientState.last_rotation);
           response += `*Last Rotation:* ${lastRotation.toLocaleString()}\n`;
         }
         if (clientState.rotation_history.length > 0) {
-          response += `*Rotation History:* ${clientState.rotation_history.length} entries\n`;
+          response += `*Rotation History:* ${clientState.rotation_history.length} entries, see /history ${escapeMarkdown(clientName)}\n`;
         }
       }
 
@@ -181,6 +453,10 @@ Examples:
         return;
       }
 
+      if (!await authorize(ctx, 'viewer', clientName)) {
+        return;
+      }
+
       const qrBuffer = await generateQRCode(clientName);
       const inputFile = new InputFile(qrBuffer, `${clientName}_qr.png`);
       
@@ -208,6 +484,11 @@ Examples:
         return;
       }
 
+      const access = await authorize(ctx, 'operator', clientName);
+      if (!access) {
+        return;
+      }
+
       // Check if client exists
       const clientConfig = getClientConfig(clientName);
       if (!clientConfig) {
@@ -224,9 +505,9 @@ Examples:
       if (currentProxy) {
         await ctx.reply(
           `✅ Proxy rotated successfully!\n\n` +
-          `*Client:* ${clientName}\n` +
-          `*Location:* ${currentProxy.location}\n` +
-          `*Proxy:* \`${currentProxy.url}\``,
+          `*Client:* ${escapeMarkdown(clientName)}\n` +
+          `*Location:* ${escapeMarkdown(currentProxy.location)}\n` +
+          `*Proxy:* ${formatMarkdownCode(currentProxy.id)}`,
           { parse_mode: 'Markdown' }
         );
       } else {
@@ -244,20 +525,201 @@ Examples:
     }
   });
 
+  // Rotation history command
+  bot.command('history', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+      const page = Number(args?.[1]) || 1;
+
+      if (!clientName) {
+        await ctx.reply('Usage: /history <name> [page]\nExample: /history client1');
+        return;
+      }
+
+      if (!await authorize(ctx, 'viewer', clientName)) {
+        return;
+      }
+
+      if (!getRegisteredClient(clientName)) {
+        await ctx.reply(`Client "${clientName}" not found.`);
+        return;
+      }
+
+      const { text, keyboard } = buildHistoryPage(clientName, page);
+      await ctx.reply(text, { parse_mode: 'Markdown', reply_markup: keyboard });
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'history', client: clientName, page }, 'Rotation history sent');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error getting rotation history');
+      await ctx.reply('Error retrieving rotation history.');
+    }
+  });
+
+  // Usage statistics command
+  bot.command('stats', async (ctx) => {
+    try {
+      const access = await authorize(ctx, 'viewer');
+      if (!access) {
+        return;
+      }
+
+      const clientNames = getRegisteredClients()
+        .map(client => client.name)
+        .filter(clientName => canAccessClient(access, clientName));
+
+      if (clientNames.length === 0) {
+        await ctx.reply('No clients configured.');
+        return;
+      }
+
+      // Users limited to some clients do not get the list of unused proxies
+      const stats = computeUsageStats(clientNames, getConfig(), access.clients === null);
+
+      let response = `*Usage Statistics*\n`;
+      if (stats.since) {
+        response += `Since ${new Date(stats.since).toLocaleString()}\n`;
+      }
+
+      response += `\n*Clients:*\n`;
+      for (const client of stats.clients) {
+        const reasons = Object.entries(client.rotations_by_reason)
+          .map(([reason, count]) => `${count} ${reason.replace(/_/g, ' ')}`)
+          .join(', ');
+        const locations = Object.entries(client.location_seconds)
+          .sort((a, b) => b[1] - a[1])
+          .map(([location, seconds]) => `${escapeMarkdown(location)} ${formatAge(seconds)}`)
+          .join(', ');
+        response += `• ${escapeMarkdown(client.client)}: ${client.rotations} rotations${reasons ? ` (${reasons})` : ''}`;
+        response += `${locations ? `; ${locations}` : ''}\n`;
+      }
+
+      if (stats.locations.length > 0) {
+        response += `\n*Locations:*\n`;
+        for (const location of stats.locations) {
+          response += `• ${escapeMarkdown(location.location)}: ${formatAge(location.seconds)} across ${location.clients} client(s)\n`;
+        }
+      }
+
+      const mostUsed = stats.proxies.filter(proxy => proxy.seconds > 0).slice(0, STATS_PROXY_LIMIT);
+      if (mostUsed.length > 0) {
+        response += `\n*Most Used Proxies:*\n`;
+        for (const proxy of mostUsed) {
+          response += `• ${formatMarkdownCode(proxy.proxy)} (${escapeMarkdown(proxy.location)}): ${formatAge(proxy.seconds)}, ${proxy.assignments} assignment(s)\n`;
+        }
+      }
+
+      if (access.clients === null && stats.proxies.length > STATS_PROXY_LIMIT) {
+        response += `\n*Least Used Proxies:*\n`;
+        for (const proxy of stats.proxies.slice(-STATS_PROXY_LIMIT).reverse()) {
+          const lastUsed = proxy.last_used
+            ? `last used ${formatAge(Math.floor((Date.now() - new Date(proxy.last_used).getTime()) / 1000))} ago`
+            : 'never used';
+          response += `• ${formatMarkdownCode(proxy.proxy)} (${escapeMarkdown(proxy.location)}): ${formatAge(proxy.seconds)}, ${lastUsed}\n`;
+        }
+      }
+
+      await ctx.reply(response, { parse_mode: 'Markdown' });
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'stats' }, 'Usage statistics sent');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error computing usage statistics');
+      await ctx.reply('Error computing usage statistics.');
+    }
+  });
+
+  // Temporary location switch command
+  bot.command('switch', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1).filter(arg => arg && arg !== 'for');
+      const clientName = args?.[0];
+      const location = args?.[1];
+      const durationArg = args?.[2];
+
+      if (!clientName || !location || (location !== 'cancel' && !durationArg)) {
+        await ctx.reply(
+          'Usage: /switch <name> <location> for <duration>\nExample: /switch client1 US for 2h\n' +
+          'Durations use m, h or d. End a switch early with /switch <name> cancel'
+        );
+        return;
+      }
+
+      if (!await authorize(ctx, 'operator', clientName)) {
+        return;
+      }
+
+      if (location === 'cancel') {
+        if (!getTemporarySwitch(clientName)) {
+          await ctx.reply(`Client "${clientName}" has no temporary switch.`);
+          return;
+        }
+        await revertTemporarySwitch(clientName);
+        const currentProxy = getCurrentProxy(clientName);
+        await ctx.reply(`✅ Temporary switch for "${clientName}" ended. Current location: ${currentProxy?.location || 'not assigned'}`);
+        logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'switch', client: clientName }, 'Temporary switch cancelled via bot');
+        return;
+      }
+
+      const config = getConfig();
+      const locations = getProxyLocations(config);
+      if (!locations.includes(location)) {
+        await ctx.reply(`Unknown location: ${location}\nAvailable: ${locations.join(', ')}`);
+        return;
+      }
+
+      const durationMs = parseDuration(durationArg!);
+      if (!durationMs || durationMs > MAX_SWITCH_DURATION_MS) {
+        await ctx.reply(`Invalid duration "${durationArg}". Use minutes, hours or days up to 7d, e.g. 30m, 2h or 1d.`);
+        return;
+      }
+
+      await ctx.reply(`Switching "${clientName}" to ${location}...`);
+
+      const temporarySwitch = await startTemporarySwitch(clientName, location, durationMs);
+
+      await ctx.reply(
+        `✅ "${clientName}" is in ${location} until ${new Date(temporarySwitch.revert_at).toLocaleString()}. ` +
+        (temporarySwitch.revert_location
+          ? `It then switches back to ${temporarySwitch.revert_location}.`
+          : 'It then gets a proxy in any location.')
+      );
+      logger.info(
+        { component: 'telegram', user_id: ctx.from?.id, command: 'switch', client: clientName, location, revert_at: temporarySwitch.revert_at },
+        'Temporary switch started via bot'
+      );
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error switching location temporarily');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error switching location: ${errorMessage}`);
+    }
+  });
+
   // Status command
   bot.command('status', async (ctx) => {
     try {
+      const access = await authorize(ctx, 'viewer');
+      if (!access) {
+        return;
+      }
+
       const config = getConfig();
-      const wgStatus = getWireGuardStatus(config.wireguard.interface);
+      const wgStatus = getPeerStatuses(config);
+      // Scoped users only see their own peers; unknown peers have no client to match
+      const peers = wgStatus.peers.filter(peer => access.clients === null || (peer.client && canAccessClient(access, peer.client)));
       
       let response = `*WireGuard Server Status*\n\n`;
-      response += `*Interface:* ${config.wireguard.interface}\n`;
+      response += `*Interface:* ${escapeMarkdown(config.wireguard.interface)}\n`;
       response += `*Status:* ${wgStatus.status === 'up' ? '✅ Up' : '❌ Down'}\n`;
       
-      if (wgStatus.status === 'up' && wgStatus.output) {
-        response += `\n*Details:*\n\`\`\`\n${wgStatus.output}\`\`\``;
+      if (wgStatus.status === 'up') {
+        response += `\n*Peers:*\n`;
+        if (peers.length === 0) {
+          response += `No peers configured.\n`;
+        }
+        for (const peer of peers) {
+          const name = peer.client || `${peer.public_key.slice(0, 8)}…`;
+          response += `${peer.online ? '🟢' : '⚪️'} ${escapeMarkdown(name)}: ${formatPeerStatus(peer)}\n`;
+        }
       } else if (wgStatus.error) {
-        response += `\n*Error:* ${wgStatus.error}`;
+        response += `\n*Error:* ${escapeMarkdown(wgStatus.error)}`;
       }
 
       await ctx.reply(response, { parse_mode: 'Markdown' });
@@ -271,6 +733,11 @@ Examples:
   // Proxies command
   bot.command('proxies', async (ctx) => {
     try {
+      const access = await authorize(ctx, 'operator');
+      if (!access) {
+        return;
+      }
+
       const config = getConfig();
       const proxies = config.proxies;
       
@@ -285,14 +752,14 @@ Examples:
         if (!byLocation[proxy.location]) {
           byLocation[proxy.location] = [];
         }
-        byLocation[proxy.location].push(proxy.url);
+        byLocation[proxy.location].push(`${formatMarkdownCode(proxy.id)} (${getProxyType(proxy.url)})`);
       }
 
       let response = `*Available Proxies*\n\n`;
-      for (const [location, urls] of Object.entries(byLocation)) {
-        response += `*${location}* (${urls.length}):\n`;
-        for (const url of urls) {
-          response += `  • \`${url}\`\n`;
+      for (const [location, entries] of Object.entries(byLocation)) {
+        response += `*${escapeMarkdown(location)}* (${entries.length}):\n`;
+        for (const entry of entries) {
+          response += `  • ${entry}\n`;
         }
         response += '\n';
       }
@@ -305,31 +772,288 @@ Examples:
     }
   });
 
+  // Add client command
+  bot.command('addclient', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /addclient <name>\nExample: /addclient alice');
+        return;
+      }
+
+      const access = await authorize(ctx, 'admin');
+      if (!access) {
+        return;
+      }
+      if (!canAccessClient(access, clientName)) {
+        await ctx.reply(`You can only create clients assigned to you: ${access.clients!.join(', ') || 'none'}`);
+        return;
+      }
+
+      await ctx.reply(`Creating client "${clientName}"...`);
+
+      await createClient(clientName);
+
+      await ctx.reply(`✅ Client "${clientName}" created. Use /qr ${clientName} to get its config.`);
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'addclient', client: clientName }, 'Client created via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error creating client');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error creating client: ${errorMessage}`);
+    }
+  });
+
+  // Disable client command
+  bot.command('disable', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /disable <name>\nExample: /disable client1');
+        return;
+      }
+
+      if (!await authorize(ctx, 'admin', clientName)) {
+        return;
+      }
+
+      await disableClient(clientName);
+
+      await ctx.reply(`Client "${clientName}" disabled. Its keys are kept; use /enable ${clientName} to restore it.`);
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'disable', client: clientName }, 'Client disabled via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error disabling client');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error disabling client: ${errorMessage}`);
+    }
+  });
+
+  // Enable client command
+  bot.command('enable', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /enable <name>\nExample: /enable client1');
+        return;
+      }
+
+      if (!await authorize(ctx, 'admin', clientName)) {
+        return;
+      }
+
+      await enableClient(clientName);
+
+      await ctx.reply(`✅ Client "${clientName}" enabled.`);
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'enable', client: clientName }, 'Client enabled via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error enabling client');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error enabling client: ${errorMessage}`);
+    }
+  });
+
+  // Delete client command
+  bot.command('deleteclient', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /deleteclient <name>\nExample: /deleteclient alice');
+        return;
+      }
+
+      if (!await authorize(ctx, 'admin', clientName)) {
+        return;
+      }
+
+      await deleteClient(clientName);
+
+      await ctx.reply(`Client "${clientName}" deleted.`);
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'deleteclient', client: clientName }, 'Client deleted via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error deleting client');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error deleting client: ${errorMessage}`);
+    }
+  });
+
+  // Portal link command
+  bot.command('portal', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+      const locationsArg = args?.[1];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /portal <name> [locations]\nExample: /portal alice\nExample: /portal alice US,DE');
+        return;
+      }
+
+      if (!await authorize(ctx, 'admin', clientName)) {
+        return;
+      }
+
+      if (!getRegisteredClient(clientName)) {
+        await ctx.reply(`Client "${clientName}" not found.`);
+        return;
+      }
+
+      const config = getConfig();
+      if (config.http?.enabled !== true) {
+        await ctx.reply('The HTTP server is disabled, portal links would not work. Enable http in config.yaml first.');
+        return;
+      }
+
+      const allowedLocations = locationsArg
+        ? locationsArg.split(',').map(location => location.trim()).filter(Boolean)
+        : undefined;
+      if (allowedLocations) {
+        const knownLocations = getProxyLocations(config);
+        const unknown = allowedLocations.filter(location => !knownLocations.includes(location));
+        if (unknown.length > 0) {
+          await ctx.reply(`Unknown location(s): ${unknown.join(', ')}\nAvailable: ${knownLocations.join(', ')}`);
+          return;
+        }
+      }
+
+      const token = createPortalLink(clientName, { allowedLocations, createdBy: ctx.from?.id });
+      const locations = getPortalLocations(clientName, config);
+
+      // Plain text: tokens may contain characters that Markdown would mangle
+      await ctx.reply(
+        `🔗 Self-service link for "${clientName}":\n${getPortalUrl(token, config)}\n\n` +
+        `Locations: ${locations.length > 0 ? locations.join(', ') : 'none'}\n` +
+        `Any previous link for this client no longer works. Revoke with /revokeportal ${clientName}`
+      );
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'portal', client: clientName }, 'Portal link created via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error creating portal link');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error creating portal link: ${errorMessage}`);
+    }
+  });
+
+  // Revoke portal link command
+  bot.command('revokeportal', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const clientName = args?.[0];
+
+      if (!clientName) {
+        await ctx.reply('Usage: /revokeportal <name>\nExample: /revokeportal alice');
+        return;
+      }
+
+      if (!await authorize(ctx, 'admin', clientName)) {
+        return;
+      }
+
+      if (revokePortalLink(clientName)) {
+        await ctx.reply(`Portal link for "${clientName}" revoked.`);
+      } else {
+        await ctx.reply(`Client "${clientName}" has no portal link.`);
+      }
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'revokeportal', client: clientName }, 'Portal link revoked via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error revoking portal link');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error revoking portal link: ${errorMessage}`);
+    }
+  });
+
+  // Mute command
+  bot.command('mute', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const target = args?.[0];
+      const durationArg = args?.[1];
+
+      if (!target || !durationArg) {
+        const mutes = ctx.from ? getAlertMutes(ctx.from.id) : {};
+        const active = Object.entries(mutes)
+          .map(([muted, until]) => `• ${muted} until ${new Date(until).toLocaleString()}`)
+          .join('\n');
+        await ctx.reply(
+          'Usage: /mute <name|all> <duration>\nExample: /mute client1 2h\nExample: /mute all 1d\n\n' +
+          (active ? `Active mutes:\n${active}` : 'No active mutes.')
+        );
+        return;
+      }
+
+      if (!await authorize(ctx, 'viewer', target === 'all' ? undefined : target)) {
+        return;
+      }
+      if (target !== 'all' && !getRegisteredClient(target)) {
+        await ctx.reply(`Client "${target}" not found.`);
+        return;
+      }
+
+      const durationMs = parseDuration(durationArg);
+      if (!durationMs) {
+        await ctx.reply(`Invalid duration "${durationArg}". Use minutes, hours or days, e.g. 30m, 2h or 1d.`);
+        return;
+      }
+
+      const until = new Date(Date.now() + durationMs);
+      await setAlertMute(ctx.from!.id, target, until);
+
+      await ctx.reply(`🔕 ${target === 'all' ? 'All alerts' : `Alerts for "${target}"`} muted until ${until.toLocaleString()}.`);
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'mute', target, until: until.toISOString() }, 'Alerts muted via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error muting alerts');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error muting alerts: ${errorMessage}`);
+    }
+  });
+
+  // Unmute command
+  bot.command('unmute', async (ctx) => {
+    try {
+      const args = ctx.message?.text?.split(' ').slice(1);
+      const target = args?.[0] || undefined;
+
+      if (!await authorize(ctx, 'viewer')) {
+        return;
+      }
+
+      const removed = await removeAlertMutes(ctx.from!.id, target);
+
+      if (removed === 0) {
+        await ctx.reply(target ? `"${target}" is not muted.` : 'No active mutes.');
+      } else {
+        await ctx.reply(`🔔 ${target ? `Alerts for "${target}"` : 'All alerts'} unmuted.`);
+      }
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'unmute', target }, 'Alerts unmuted via bot');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error unmuting alerts');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await ctx.reply(`Error unmuting alerts: ${errorMessage}`);
+    }
+  });
+
   // Menu command - shows clients as buttons
   bot.command('menu', async (ctx) => {
     try {
-      const clients = getAllClients();
-      
-      if (clients.length === 0) {
-        await ctx.reply('No clients configured.');
+      const access = await authorize(ctx, 'operator');
+      if (!access) {
         return;
       }
 
-      const keyboard = new InlineKeyboard();
+      const clients = getAllClients().filter(client => canAccessClient(access, client));
       
-      // Add client buttons (2 per row)
-      for (let i = 0; i < clients.length; i += 2) {
-        keyboard.text(clients[i], `client:${clients[i]}`);
-        if (i + 1 < clients.length) {
-          keyboard.text(clients[i + 1], `client:${clients[i + 1]}`);
-        }
-        if (i + 2 < clients.length) {
-          keyboard.row();
-        }
+      if (clients.length === 0) {
+        await ctx.reply('No clients configured.');
+        return;
       }
 
       await ctx.reply('Select a client to switch location:', {
-        reply_markup: keyboard,
+        reply_markup: buildClientKeyboard(clients),
       });
       
       logger.info({ component: 'telegram', user_id: ctx.from?.id, command: 'menu' }, 'Menu sent');
@@ -343,6 +1067,11 @@ Examples:
   bot.callbackQuery(/^client:(.+)$/, async (ctx) => {
     try {
       const clientName = ctx.match[1];
+
+      const access = await authorize(ctx, 'operator', clientName);
+      if (!access) {
+        return;
+      }
       
       // Verify client exists
       const clientConfig = getClientConfig(clientName);
@@ -355,7 +1084,7 @@ Examples:
       const currentProxy = getCurrentProxy(clientName);
       
       // Get unique locations from proxies
-      const locations = [...new Set(config.proxies.map(p => p.location))];
+      const locations = getProxyLocations(config);
       
       if (locations.length === 0) {
         await ctx.answerCallbackQuery({ text: 'No locations available.', show_alert: true });
@@ -391,10 +1120,10 @@ Examples:
       keyboard.row();
       keyboard.text('← Back to Clients', 'menu:back');
 
-      let message = `*Client: ${clientName}*\n\n`;
+      let message = `*Client: ${escapeMarkdown(clientName)}*\n\n`;
       if (currentProxy) {
-        message += `*Current Location:* ${currentProxy.location}\n`;
-        message += `*Current Proxy:* \`${currentProxy.url}\`\n\n`;
+        message += `*Current Location:* ${escapeMarkdown(currentProxy.location)}\n`;
+        message += `*Current Proxy:* ${formatMarkdownCode(currentProxy.id)}\n\n`;
       } else {
         message += `*Current Location:* Not assigned\n\n`;
       }
@@ -418,6 +1147,11 @@ Examples:
     try {
       const clientName = ctx.match[1];
       const location = ctx.match[2];
+
+      const access = await authorize(ctx, 'operator', clientName);
+      if (!access) {
+        return;
+      }
       
       // Verify client exists
       const clientConfig = getClientConfig(clientName);
@@ -437,7 +1171,7 @@ Examples:
       if (currentProxy && currentProxy.location === location) {
         // Update the message with success
         const config = getConfig();
-        const locations = [...new Set(config.proxies.map(p => p.location))];
+        const locations = getProxyLocations(config);
         const keyboard = new InlineKeyboard();
         
         // Rebuild location buttons with updated current location
@@ -466,10 +1200,10 @@ Examples:
         keyboard.row();
         keyboard.text('← Back to Clients', 'menu:back');
 
-        let message = `*Client: ${clientName}*\n\n`;
+        let message = `*Client: ${escapeMarkdown(clientName)}*\n\n`;
         message += `✅ *Location switched successfully!*\n\n`;
-        message += `*Current Location:* ${currentProxy.location}\n`;
-        message += `*Current Proxy:* \`${currentProxy.url}\`\n\n`;
+        message += `*Current Location:* ${escapeMarkdown(currentProxy.location)}\n`;
+        message += `*Current Proxy:* ${formatMarkdownCode(currentProxy.id)}\n\n`;
         message += `Select a location to switch to:`;
 
         await ctx.editMessageText(message, {
@@ -494,31 +1228,47 @@ Examples:
     }
   });
 
+  // Callback query handler for rotation history pages
+  bot.callbackQuery(/^history:(.+):(\d+)$/, async (ctx) => {
+    try {
+      const clientName = ctx.match[1];
+      const page = Number(ctx.match[2]);
+
+      if (!await authorize(ctx, 'viewer', clientName)) {
+        return;
+      }
+
+      const { text, keyboard } = buildHistoryPage(clientName, page);
+      await ctx.editMessageText(text, {
+        parse_mode: 'Markdown',
+        reply_markup: keyboard,
+      });
+
+      await ctx.answerCallbackQuery();
+      logger.info({ component: 'telegram', user_id: ctx.from?.id, client: clientName, page }, 'Rotation history page shown');
+    } catch (error) {
+      logger.error({ component: 'telegram', error, user_id: ctx.from?.id }, 'Error showing rotation history page');
+      await ctx.answerCallbackQuery({ text: 'Error showing history.', show_alert: true });
+    }
+  });
+
   // Callback query handler for back button
   bot.callbackQuery('menu:back', async (ctx) => {
     try {
-      const clients = getAllClients();
-      
-      if (clients.length === 0) {
-        await ctx.answerCallbackQuery({ text: 'No clients configured.', show_alert: true });
+      const access = await authorize(ctx, 'operator');
+      if (!access) {
         return;
       }
 
-      const keyboard = new InlineKeyboard();
+      const clients = getAllClients().filter(client => canAccessClient(access, client));
       
-      // Add client buttons (2 per row)
-      for (let i = 0; i < clients.length; i += 2) {
-        keyboard.text(clients[i], `client:${clients[i]}`);
-        if (i + 1 < clients.length) {
-          keyboard.text(clients[i + 1], `client:${clients[i + 1]}`);
-        }
-        if (i + 2 < clients.length) {
-          keyboard.row();
-        }
+      if (clients.length === 0) {
+        await ctx.answerCallbackQuery({ text: 'No clients configured.', show_alert: true });
+        return;
       }
 
       await ctx.editMessageText('Select a client to switch location:', {
-        reply_markup: keyboard,
+        reply_markup: buildClientKeyboard(clients),
       });
       
       await ctx.answerCallbackQuery();
@@ -535,6 +1285,10 @@ Examples:
   });
 
   // Start bot
+  syncCommandMenus(bot, config).catch((error) => {
+    logger.error({ component: 'telegram', error }, 'Failed to set Telegram command menus');
+  });
+
   bot.start().then(() => {
     logger.info({ component: 'telegram' }, 'Telegram bot started');
   }).catch((error) => {
@@ -543,13 +1297,50 @@ Examples:
 }
 
 /**
- * Send notification to all admin users about automatic proxy rotation
+ * Update command menus after users or roles changed in a config reload.
+ * Removed users lose their menu.
+ */
+export async function refreshCommandMenus(config: Config, removedUserIds: number[]): Promise<void> {
+  if (!botInstance) {
+    return;
+  }
+
+  for (const userId of removedUserIds) {
+    try {
+      await botInstance.api.deleteMyCommands({ scope: { type: 'chat', chat_id: userId } });
+    } catch (error) {
+      logger.warn({ component: 'telegram', error, user_id: userId }, 'Failed to remove command menu for user');
+    }
+  }
+  await syncCommandMenus(botInstance, config);
+}
+
+/**
+ * Users who may see a client and have not muted it. Messages about no client
+ * in particular (null) go to users who can see every client.
+ */
+function getNotificationRecipients(config: Config, clientName: string | null): number[] {
+  if (!config.telegram) {
+    return [];
+  }
+
+  const userIds = [...new Set([...config.telegram.admin_user_ids, ...config.telegram.users.map(u => u.id)])];
+  return userIds.filter(userId => {
+    const access = getUserAccess(userId);
+    return access !== null &&
+      (clientName === null ? access.clients === null : canAccessClient(access, clientName)) &&
+      !isAlertMuted(userId, clientName);
+  });
+}
+
+/**
+ * Send notification to all users of a client about automatic proxy rotation
  */
 export async function notifyAutomaticRotation(
   clientName: string,
   oldLocation: string,
   newLocation: string,
-  newProxyUrl: string
+  newProxyId: string
 ): Promise<void> {
   if (!botInstance) {
     // Bot not initialized, skip notification
@@ -561,15 +1352,14 @@ export async function notifyAutomaticRotation(
     return;
   }
 
-  const message = `🔄 *Automatic Proxy Rotation*\n\n` +
-    `*Client:* ${clientName}\n` +
-    `*Old Location:* ${oldLocation || 'None'}\n` +
-    `*New Location:* ${newLocation}\n` +
-    `*New Proxy:* \`${newProxyUrl}\`\n\n` +
-    `Rotation completed automatically.`;
+  const promises = getNotificationRecipients(config, clientName).map(async userId => {
+    const message = `🔄 *Automatic Proxy Rotation*\n\n` +
+      `*Client:* ${escapeMarkdown(clientName)}\n` +
+      `*Old Location:* ${escapeMarkdown(oldLocation || 'None')}\n` +
+      `*New Location:* ${escapeMarkdown(newLocation)}\n` +
+      `*New Proxy:* ${formatMarkdownCode(newProxyId)}\n\n` +
+      `Rotation completed automatically.`;
 
-  // Send notification to all admin users
-  const promises = config.telegram.admin_user_ids.map(async (userId) => {
     try {
       await botInstance!.api.sendMessage(userId, message, { parse_mode: 'Markdown' });
       logger.debug({ component: 'telegram', user_id: userId, client: clientName }, 'Rotation notification sent');
@@ -583,3 +1373,33 @@ export async function notifyAutomaticRotation(
 
   await Promise.allSettled(promises);
 }
+
+/**
+ * Send an alert to all users of a client, or to users who can see every
+ * client when it is not about a specific one. Muted users are skipped.
+ */
+export async function sendAlert(clientName: string | null, message: string): Promise<void> {
+  if (!botInstance) {
+    // Bot not initialized, skip alert
+    return;
+  }
+
+  const config = getConfig();
+  if (!config.telegram) {
+    return;
+  }
+
+  const promises = getNotificationRecipients(config, clientName).map(async userId => {
+    try {
+      await botInstance!.api.sendMessage(userId, message, { parse_mode: 'Markdown' });
+      logger.debug({ component: 'telegram', user_id: userId, client: clientName }, 'Alert sent');
+    } catch (error) {
+      logger.error(
+        { component: 'telegram', error, user_id: userId, client: clientName },
+        'Failed to send alert'
+      );
+    }
+  });
+
+  await Promise.allSettled(promises);
+}
@@ -1,25 +1,51 @@
-import { execSync, spawn, ChildProcess } from 'child_process';
+import { execFile, execSync, spawn, ChildProcess } from 'child_process';
+import { promisify } from 'util';
 import { logger } from './logger';
-import { Config, getConfig } from './config';
+import { Config, Proxy, getConfig, getProxyType, findProxy } from './config';
 import { join } from 'path';
 import { createWriteStream, existsSync, mkdirSync, readFileSync } from 'fs';
+import { getEnabledClients, getRegisteredClients } from './registry';
+import { IpLease, getLease } from './ipam';
+import { recordTunnelRestart, recordTunnelGiveUp } from './metrics';
+import { emitEvent } from './events';
+
+const execFileAsync = promisify(execFile);
 
 const TUN2SOCKS_BIN = '/usr/local/bin/tun2socks';
-const TUN_POOL_BASE = '10.210.0.0/16'; // Base pool for TUN interfaces
-const ROUTE_TABLE_BASE = 100;
+const RULE_PRIORITY = 200; // Policy routing rule priority for client source rules
+const DRAIN_RULE_PRIORITY = 100; // Higher-precedence rules for new connections while draining
+const DRAIN_MARK_BASE = 0x10000; // Connection marks used while draining, offset by route table
 const MAX_RESTART_ATTEMPTS = 3;
 const RESTART_DELAY_MS = 5000; // 5 seconds between restart attempts
+const DEFAULT_VERIFY_URL = 'http://www.gstatic.com/generate_204';
+const TCP_ONLY_PROXY_TYPES = ['http', 'socks4']; // tun2socks cannot relay UDP through these
+const DEFAULT_VERIFY_TIMEOUT_MS = 10000;
+const VERIFY_ATTEMPTS = 3;
+
+/**
+ * Each client owns two tunnel slots so that a new tunnel can be brought up
+ * next to the running one during make-before-break rotation
+ */
+type TunnelSlot = 0 | 1;
 
 interface TunnelProcess {
   process: ChildProcess;
   clientName: string;
   tunInterface: string;
-  proxyUrl: string;
+  proxy: Proxy;
+  slot: TunnelSlot;
   restartAttempts: number;
   restartTimer?: ReturnType<typeof setTimeout>;
 }
 
+interface DrainingTunnel {
+  tunnel: TunnelProcess;
+  timer: ReturnType<typeof setTimeout>;
+  finish: () => Promise<void>;
+}
+
 const activeTunnels = new Map<string, TunnelProcess>();
+const drainingTunnels = new Map<string, DrainingTunnel>();
 
 /**
  * Sanitize client name to create a valid Linux interface name
@@ -28,7 +54,7 @@ const activeTunnels = new Map<string, TunnelProcess>();
  * - Can contain: a-z, A-Z, 0-9, and some special characters (but not underscores)
  * - Must start with a letter
  */
-function sanitizeInterfaceName(clientName: string): string {
+function sanitizeInterfaceName(clientName: string, slot: TunnelSlot = 0): string {
   // Replace underscores and other invalid chars with valid ones
   // Use a simple hash-like approach: convert to base36 (0-9a-z)
   let sanitized = clientName
@@ -51,67 +77,40 @@ function sanitizeInterfaceName(clientName: string): string {
     sanitized = sanitized.substring(0, maxNameLength - hashStr.length) + hashStr;
   }
   
-  return `tun-${sanitized}`;
+  // Standby slot uses "tub-" so both devices can exist side by side
+  return slot === 0 ? `tun-${sanitized}` : `tub-${sanitized}`;
 }
 
 /**
- * Calculate TUN subnet for a client based on client index
+ * Get the IPAM lease holding a client's address, TUN subnets and route tables
  */
-function getTunSubnet(clientIndex: number): string {
-  // Use client index directly as the third octet to ensure unique subnets
-  // Client 0 -> 10.210.0.0/24, Client 1 -> 10.210.1.0/24, etc.
-  return `10.210.${clientIndex}.0/24`;
-}
-
-/**
- * Calculate route table number for a client
- */
-function getRouteTable(clientIndex: number): number {
-  return ROUTE_TABLE_BASE + clientIndex;
+function getClientLease(clientName: string): IpLease {
+  const lease = getLease(clientName);
+  if (!lease) {
+    throw new Error(`Client ${clientName} has no IP lease`);
+  }
+  return lease;
 }
 
 /**
- * Get client IP from WireGuard config
+ * Get client IP from its IPAM lease
  */
-function getClientIP(clientName: string, config: Config): string | null {
-  const dataDir = config.data?.dir || './data';
-  const clientsDir = join(dataDir, 'clients');
-  const clientConfigPath = join(clientsDir, `${clientName}.conf`);
-  
-  try {
-    if (!existsSync(clientConfigPath)) {
-      return null;
-    }
-    
-    const clientConfig = readFileSync(clientConfigPath, 'utf-8');
-    const match = clientConfig.match(/Address\s*=\s*(\d+\.\d+\.\d+\.\d+)\/\d+/);
-    return match ? match[1] : null;
-  } catch (error) {
-    logger.error({ component: 'tunnel', client: clientName, error }, 'Failed to get client IP');
-    return null;
-  }
+function getClientIP(clientName: string): string | null {
+  return getLease(clientName)?.address || null;
 }
 
 /**
- * Setup TUN interface and routing for a client
+ * Create the TUN device, route table and forwarding rules for one slot.
+ * Does not touch the client's policy routing rule.
  */
-export async function setupClientTunnel(clientName: string, config: Config): Promise<void> {
-  const clientIndex = config.clients.findIndex(c => c.name === clientName);
-  if (clientIndex === -1) {
-    throw new Error(`Client ${clientName} not found in config`);
-  }
-
-  const tunInterface = sanitizeInterfaceName(clientName);
-  const tunSubnet = getTunSubnet(clientIndex);
-  const routeTable = getRouteTable(clientIndex);
-  const clientIP = getClientIP(clientName, config);
-
-  if (!clientIP) {
-    throw new Error(`Could not determine IP for client ${clientName}`);
-  }
+function setupTunDevice(clientName: string, slot: TunnelSlot, config: Config): void {
+  const lease = getClientLease(clientName);
+  const tunInterface = sanitizeInterfaceName(clientName, slot);
+  const tunSubnet = lease.tun_subnets[slot];
+  const routeTable = lease.route_tables[slot];
 
   logger.info(
-    { component: 'tunnel', client: clientName, tun: tunInterface, subnet: tunSubnet },
+    { component: 'tunnel', client: clientName, tun: tunInterface, subnet: tunSubnet, slot },
     'Setting up TUN interface for client'
   );
 
@@ -121,48 +120,101 @@ export async function setupClientTunnel(clientName: string, config: Config): Pro
   const tunIP = `${baseIP[0]}.${baseIP[1]}.${baseIP[2]}.2`;
   const peerGW = `${baseIP[0]}.${baseIP[1]}.${baseIP[2]}.1`;
 
+  // Create TUN interface if it doesn't exist
   try {
-    // Create TUN interface if it doesn't exist
-    try {
-      execSync(`ip link show ${tunInterface}`, { stdio: 'ignore' });
-      // Interface exists, flush addresses
-      execSync(`ip addr flush dev ${tunInterface}`, { stdio: 'ignore' });
-    } catch (error) {
-      // Interface doesn't exist, create it
-      execSync(`ip tuntap add dev ${tunInterface} mode tun`, { stdio: 'pipe' });
-    }
+    execSync(`ip link show ${tunInterface}`, { stdio: 'ignore' });
+    // Interface exists, flush addresses
+    execSync(`ip addr flush dev ${tunInterface}`, { stdio: 'ignore' });
+  } catch (error) {
+    // Interface doesn't exist, create it
+    execSync(`ip tuntap add dev ${tunInterface} mode tun`, { stdio: 'pipe' });
+  }
 
-    // Configure TUN interface
-    execSync(`ip addr add ${tunIP}/24 peer ${peerGW} dev ${tunInterface}`, { stdio: 'pipe' });
-    execSync(`ip link set dev ${tunInterface} up`, { stdio: 'pipe' });
+  // Configure TUN interface
+  execSync(`ip addr add ${tunIP}/24 peer ${peerGW} dev ${tunInterface}`, { stdio: 'pipe' });
+  execSync(`ip link set dev ${tunInterface} up`, { stdio: 'pipe' });
+
+  // Setup routing table
+  // Add route to TUN subnet first (required for point-to-point interfaces)
+  execSync(`ip route replace ${tunSubnet} dev ${tunInterface} table ${routeTable}`, { stdio: 'pipe' });
+  // Add default route through TUN interface
+  execSync(`ip route replace default dev ${tunInterface} table ${routeTable}`, { stdio: 'pipe' });
+
+  // Setup iptables forwarding rules
+  const wgInterface = config.wireguard.interface;
+  removeForwardingRules(tunInterface, wgInterface);
+  execSync(`iptables -I FORWARD -i ${wgInterface} -o ${tunInterface} -j ACCEPT`, { stdio: 'pipe' });
+  execSync(`iptables -I FORWARD -i ${tunInterface} -o ${wgInterface} -j ACCEPT`, { stdio: 'pipe' });
+  execSync(`iptables -t nat -I POSTROUTING -o ${tunInterface} -j MASQUERADE`, { stdio: 'pipe' });
+}
 
-    // Setup routing table
-    // Add route to TUN subnet first (required for point-to-point interfaces)
-    execSync(`ip route replace ${tunSubnet} dev ${tunInterface} table ${routeTable}`, { stdio: 'pipe' });
-    // Add default route through TUN interface
-    execSync(`ip route replace default dev ${tunInterface} table ${routeTable}`, { stdio: 'pipe' });
+function removeForwardingRules(tunInterface: string, wgInterface: string): void {
+  try {
+    execSync(`iptables -D FORWARD -i ${wgInterface} -o ${tunInterface} -j ACCEPT`, { stdio: 'ignore' });
+    execSync(`iptables -D FORWARD -i ${tunInterface} -o ${wgInterface} -j ACCEPT`, { stdio: 'ignore' });
+    execSync(`iptables -t nat -D POSTROUTING -o ${tunInterface} -j MASQUERADE`, { stdio: 'ignore' });
+  } catch (error) {
+    // Rules might not exist, ignore
+  }
+}
 
-    // Setup policy-based routing rule
-    const prio = 200 + (clientIndex % 100);
+/**
+ * Remove the TUN device, route table and forwarding rules for one slot
+ */
+function teardownTunDevice(clientName: string, slot: TunnelSlot, config: Config): void {
+  const lease = getLease(clientName);
+  const tunInterface = sanitizeInterfaceName(clientName, slot);
+
+  removeForwardingRules(tunInterface, config.wireguard.interface);
+
+  if (lease) {
     try {
-      execSync(`ip rule del from ${clientIP}/32 table ${routeTable}`, { stdio: 'ignore' });
+      execSync(`ip route flush table ${lease.route_tables[slot]}`, { stdio: 'ignore' });
     } catch (error) {
-      // Rule might not exist, ignore
+      // Table might be empty, ignore
     }
-    execSync(`ip rule add priority ${prio} from ${clientIP}/32 lookup ${routeTable}`, { stdio: 'pipe' });
+  }
 
-    // Setup iptables forwarding rules
-    const wgInterface = config.wireguard.interface;
+  try {
+    execSync(`ip link delete ${tunInterface}`, { stdio: 'ignore' });
+  } catch (error) {
+    // Interface might not exist or be in use, ignore
+  }
+}
+
+/**
+ * Remove every policy routing rule that matches a client's source address
+ */
+function removePolicyRules(clientIP: string): void {
+  // Each call removes one matching rule, stop once none are left
+  for (let i = 0; i < 10; i++) {
     try {
-      execSync(`iptables -D FORWARD -i ${wgInterface} -o ${tunInterface} -j ACCEPT`, { stdio: 'ignore' });
-      execSync(`iptables -D FORWARD -i ${tunInterface} -o ${wgInterface} -j ACCEPT`, { stdio: 'ignore' });
-      execSync(`iptables -t nat -D POSTROUTING -o ${tunInterface} -j MASQUERADE`, { stdio: 'ignore' });
+      execSync(`ip rule del from ${clientIP}/32`, { stdio: 'ignore' });
     } catch (error) {
-      // Rules might not exist, ignore
+      return;
     }
-    execSync(`iptables -I FORWARD -i ${wgInterface} -o ${tunInterface} -j ACCEPT`, { stdio: 'pipe' });
-    execSync(`iptables -I FORWARD -i ${tunInterface} -o ${wgInterface} -j ACCEPT`, { stdio: 'pipe' });
-    execSync(`iptables -t nat -I POSTROUTING -o ${tunInterface} -j MASQUERADE`, { stdio: 'pipe' });
+  }
+}
+
+/**
+ * Setup TUN interface and routing for a client
+ */
+export async function setupClientTunnel(clientName: string, config: Config): Promise<void> {
+  const lease = getClientLease(clientName);
+  const tunInterface = sanitizeInterfaceName(clientName);
+  const routeTable = lease.route_tables[0];
+  const clientIP = lease.address;
+
+  if (!clientIP) {
+    throw new Error(`Could not determine IP for client ${clientName}`);
+  }
+
+  try {
+    setupTunDevice(clientName, 0, config);
+
+    // Setup policy-based routing rule
+    removePolicyRules(clientIP);
+    execSync(`ip rule add priority ${RULE_PRIORITY} from ${clientIP}/32 lookup ${routeTable}`, { stdio: 'pipe' });
 
     logger.info({ component: 'tunnel', client: clientName, tun: tunInterface }, 'TUN interface configured');
   } catch (error) {
@@ -193,22 +245,38 @@ function findTun2SocksBinary(): string | null {
 }
 
 /**
- * Start TUN2SOCKS process for a client with auto-restart on failure
+ * Start TUN2SOCKS process for a client with auto-restart on failure.
+ * Unregistered processes are not tracked in activeTunnels and are never
+ * auto-restarted; make-before-break rotation registers them once verified.
  */
-async function startTun2SocksProcess(clientName: string, proxyUrl: string, config: Config, isRestart: boolean = false): Promise<void> {
-  const tunInterface = sanitizeInterfaceName(clientName);
+async function startTun2SocksProcess(
+  clientName: string,
+  proxy: Proxy,
+  config: Config,
+  restartAttempts: number = 0,
+  slot: TunnelSlot = 0,
+  register: boolean = true
+): Promise<TunnelProcess | null> {
+  const tunInterface = sanitizeInterfaceName(clientName, slot);
   
   // Find TUN2SOCKS binary
   const tun2socksPath = findTun2SocksBinary();
   if (!tun2socksPath) {
     logger.warn({ component: 'tunnel', client: clientName }, 'TUN2SOCKS binary not found. Install tun2socks to enable proxy routing.');
-    return;
+    return null;
   }
 
+  const proxyType = getProxyType(proxy.url);
   logger.info(
-    { component: 'tunnel', client: clientName, proxy: proxyUrl, tun: tunInterface, is_restart: isRestart },
+    { component: 'tunnel', client: clientName, proxy: proxy.id, type: proxyType, tun: tunInterface, is_restart: restartAttempts > 0 },
     'Starting TUN2SOCKS process'
   );
+  if (proxyType && TCP_ONLY_PROXY_TYPES.includes(proxyType) && restartAttempts === 0) {
+    logger.warn(
+      { component: 'tunnel', client: clientName, type: proxyType },
+      'Proxy type carries TCP only, UDP traffic from this client (including plain DNS) is dropped'
+    );
+  }
 
   try {
     const dataDir = config.data?.dir || './data';
@@ -222,10 +290,11 @@ async function startTun2SocksProcess(clientName: string, proxyUrl: string, confi
       // Directory might already exist
     }
 
-    // Start tun2socks process
+    // Start tun2socks process; it takes socks5://, socks4://, http:// and ss:// URLs as configured.
+    // This is the only place the proxy credentials are handed out
     const tun2socksProcess = spawn(tun2socksPath, [
       '-device', tunInterface,
-      '-proxy', proxyUrl,
+      '-proxy', proxy.url,
       '-loglevel', 'info'
     ], {
       stdio: ['ignore', 'pipe', 'pipe'],
@@ -241,8 +310,9 @@ async function startTun2SocksProcess(clientName: string, proxyUrl: string, confi
       process: tun2socksProcess,
       clientName,
       tunInterface,
-      proxyUrl,
-      restartAttempts: isRestart ? (activeTunnels.get(clientName)?.restartAttempts || 0) + 1 : 0,
+      proxy,
+      slot,
+      restartAttempts,
     };
 
     tun2socksProcess.on('error', (error) => {
@@ -251,19 +321,26 @@ async function startTun2SocksProcess(clientName: string, proxyUrl: string, confi
     });
 
     tun2socksProcess.on('exit', (code, signal) => {
-      logger.warn({ component: 'tunnel', client: clientName, code, signal }, 'TUN2SOCKS process exited');
+      logger.warn({ component: 'tunnel', client: clientName, code, signal, tun: tunInterface }, 'TUN2SOCKS process exited');
       
       // Only attempt restart if exit was unexpected (not SIGTERM/SIGKILL)
-      if (signal !== 'SIGTERM' && signal !== 'SIGKILL' && code !== 0) {
+      const expected = signal === 'SIGTERM' || signal === 'SIGKILL' || code === 0;
+      emitEvent({ type: 'tunnel_exited', client: clientName, interface: tunInterface, code, signal, expected });
+
+      if (!expected) {
         handleTunnelFailure(clientName, config, tunnelInfo);
-      } else {
+      } else if (activeTunnels.get(clientName) === tunnelInfo) {
         activeTunnels.delete(clientName);
       }
     });
 
-    activeTunnels.set(clientName, tunnelInfo);
+    if (register) {
+      activeTunnels.set(clientName, tunnelInfo);
+    }
 
-    logger.info({ component: 'tunnel', client: clientName, proxy: proxyUrl }, 'TUN2SOCKS process started');
+    logger.info({ component: 'tunnel', client: clientName, proxy: proxy.id }, 'TUN2SOCKS process started');
+    emitEvent({ type: 'tunnel_started', client: clientName, proxy: proxy.id, interface: tunInterface, restart_attempt: restartAttempts });
+    return tunnelInfo;
   } catch (error) {
     logger.error({ component: 'tunnel', client: clientName, error }, 'Failed to start TUN2SOCKS');
     throw error;
@@ -274,13 +351,27 @@ async function startTun2SocksProcess(clientName: string, proxyUrl: string, confi
  * Handle tunnel failure and attempt restart
  */
 function handleTunnelFailure(clientName: string, config: Config, tunnelInfo: TunnelProcess): void {
-  activeTunnels.delete(clientName);
+  // Ignore processes that were stopped, superseded by a rotation, or already handled
+  if (activeTunnels.get(clientName) !== tunnelInfo || tunnelInfo.restartTimer) {
+    return;
+  }
 
   if (tunnelInfo.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+    activeTunnels.delete(clientName);
+    recordTunnelGiveUp(clientName);
+    emitEvent({ type: 'tunnel_restart_given_up', client: clientName, proxy: tunnelInfo.proxy.id, attempts: tunnelInfo.restartAttempts });
     logger.error(
       { component: 'tunnel', client: clientName, attempts: tunnelInfo.restartAttempts },
       'Max restart attempts reached, giving up'
     );
+
+    // Escalate to the proxy layer so the client is moved to another proxy
+    // Import dynamically to avoid circular dependency
+    import('./proxy')
+      .then(({ failoverProxyForClient }) => failoverProxyForClient(clientName, tunnelInfo.proxy.id))
+      .catch(err => {
+        logger.error({ component: 'tunnel', client: clientName, error: err }, 'Failed to fail over client to another proxy');
+      });
     return;
   }
 
@@ -288,9 +379,21 @@ function handleTunnelFailure(clientName: string, config: Config, tunnelInfo: Tun
     { component: 'tunnel', client: clientName, attempt: tunnelInfo.restartAttempts + 1, max: MAX_RESTART_ATTEMPTS },
     'Scheduling TUN2SOCKS restart'
   );
-
+  recordTunnelRestart(clientName);
+  emitEvent({
+    type: 'tunnel_restart_scheduled',
+    client: clientName,
+    attempt: tunnelInfo.restartAttempts + 1,
+    max_attempts: MAX_RESTART_ATTEMPTS,
+    delay_ms: RESTART_DELAY_MS,
+  });
+
+  // Keep the entry registered while waiting so stopClientTunnel can cancel the restart
   const restartTimer = setTimeout(() => {
-    startTun2SocksProcess(clientName, tunnelInfo.proxyUrl, config, true).catch(err => {
+    if (activeTunnels.get(clientName) !== tunnelInfo) {
+      return;
+    }
+    startTun2SocksProcess(clientName, tunnelInfo.proxy, config, tunnelInfo.restartAttempts + 1, tunnelInfo.slot).catch(err => {
       logger.error({ component: 'tunnel', client: clientName, error: err }, 'Failed to restart TUN2SOCKS');
     });
   }, RESTART_DELAY_MS);
@@ -301,52 +404,68 @@ function handleTunnelFailure(clientName: string, config: Config, tunnelInfo: Tun
 /**
  * Start TUN2SOCKS process for a client
  */
-export async function startTun2Socks(clientName: string, proxyUrl: string, config: Config): Promise<void> {
+export async function startTun2Socks(clientName: string, proxy: Proxy, config: Config): Promise<void> {
   // Stop existing tunnel if any
   await stopClientTunnel(clientName);
 
+  // A previous make-before-break rotation may have left the client on the standby slot
+  teardownTunDevice(clientName, 1, config);
+
   // Ensure TUN interface is set up
   await setupClientTunnel(clientName, config);
 
   // Start TUN2SOCKS process
-  await startTun2SocksProcess(clientName, proxyUrl, config, false);
+  await startTun2SocksProcess(clientName, proxy, config);
+}
+
+/**
+ * Send SIGTERM to a TUN2SOCKS process, escalating to SIGKILL if it lingers
+ */
+function killTunnelProcess(tunnel: TunnelProcess): void {
+  if (tunnel.restartTimer) {
+    clearTimeout(tunnel.restartTimer);
+  }
+
+  try {
+    tunnel.process.kill('SIGTERM');
+    // Wait a bit, then force kill if still running
+    setTimeout(() => {
+      if (tunnel.process.exitCode === null && tunnel.process.signalCode === null) {
+        tunnel.process.kill('SIGKILL');
+      }
+    }, 2000);
+  } catch (error) {
+    logger.warn({ component: 'tunnel', client: tunnel.clientName, error }, 'Error stopping TUN2SOCKS process');
+  }
 }
 
 /**
  * Stop TUN2SOCKS process and cleanup for a client
  */
 export async function stopClientTunnel(clientName: string): Promise<void> {
+  // Finish any drain in progress first so its rules and device are removed
+  const draining = drainingTunnels.get(clientName);
+  if (draining) {
+    clearTimeout(draining.timer);
+    await draining.finish();
+  }
+
   const tunnel = activeTunnels.get(clientName);
   
   if (tunnel) {
     logger.info({ component: 'tunnel', client: clientName }, 'Stopping TUN2SOCKS process');
-    
-    // Clear restart timer if exists
-    if (tunnel.restartTimer) {
-      clearTimeout(tunnel.restartTimer);
-    }
-    
-    try {
-      tunnel.process.kill('SIGTERM');
-      // Wait a bit, then force kill if still running
-      setTimeout(() => {
-        if (!tunnel.process.killed) {
-          tunnel.process.kill('SIGKILL');
-        }
-      }, 2000);
-    } catch (error) {
-      logger.warn({ component: 'tunnel', client: clientName, error }, 'Error stopping TUN2SOCKS process');
-    }
-    
     activeTunnels.delete(clientName);
+    killTunnelProcess(tunnel);
   }
 
   // Also kill any orphaned processes
-  try {
-    const tunInterface = sanitizeInterfaceName(clientName);
-    execSync(`pkill -f "tun2socks.*${tunInterface}"`, { stdio: 'ignore' });
-  } catch (error) {
-    // Process might not exist, ignore
+  for (const slot of [0, 1] as TunnelSlot[]) {
+    try {
+      const tunInterface = sanitizeInterfaceName(clientName, slot);
+      execSync(`pkill -f "tun2socks.*${tunInterface}"`, { stdio: 'ignore' });
+    } catch (error) {
+      // Process might not exist, ignore
+    }
   }
 }
 
@@ -361,23 +480,210 @@ export async function initializeClientTunnels(config: Config): Promise<void> {
   // Import getCurrentProxy dynamically to avoid circular dependency
   const { getCurrentProxy } = await import('./proxy');
   
-  for (const client of config.clients) {
+  for (const client of getEnabledClients()) {
     const currentProxy = getCurrentProxy(client.name);
-    
-    if (currentProxy) {
-      await startTun2Socks(client.name, currentProxy.url, config);
+    const proxy = currentProxy ? findProxy(config, currentProxy.id) : undefined;
+
+    if (proxy) {
+      await startTun2Socks(client.name, proxy, config);
     } else {
       logger.warn({ component: 'tunnel', client: client.name }, 'No proxy assigned, skipping tunnel setup');
     }
   }
 }
 
+/**
+ * Proxy the client's running tunnel was started with
+ */
+export function getTunnelProxy(clientName: string): Proxy | null {
+  return activeTunnels.get(clientName)?.proxy || null;
+}
+
 /**
  * Restart tunnel with new proxy (used during rotation)
  */
-export async function restartClientTunnel(clientName: string, newProxyUrl: string, config: Config): Promise<void> {
+export async function restartClientTunnel(clientName: string, newProxy: Proxy, config: Config): Promise<void> {
+  await stopClientTunnel(clientName);
+  await startTun2Socks(clientName, newProxy, config);
+}
+
+/**
+ * Check that traffic actually flows through a TUN device.
+ * tun2socks needs a moment to open the device, so a few attempts are made.
+ */
+async function verifyTunnel(tunInterface: string, url: string, timeoutMs: number): Promise<boolean> {
+  const timeoutSeconds = Math.max(1, Math.ceil(timeoutMs / 1000));
+
+  for (let attempt = 1; attempt <= VERIFY_ATTEMPTS; attempt++) {
+    try {
+      // No shell: the URL comes from config.yaml
+      await execFileAsync('curl', ['-s', '-o', '/dev/null', '--interface', tunInterface, '--max-time', String(timeoutSeconds), url]);
+      return true;
+    } catch (error) {
+      logger.debug({ component: 'tunnel', tun: tunInterface, attempt, error }, 'Tunnel verification attempt failed');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Rotate a client to a new proxy without dropping connectivity: bring up the
+ * standby slot with the new proxy, verify it passes traffic, move the client's
+ * policy rule over to it and only then tear down the old tunnel. With
+ * `rotation.drain_seconds` set, connections opened before the switch keep
+ * using the old tunnel until the grace period ends.
+ * Throws if the new tunnel cannot be verified; the old tunnel keeps running.
+ */
+export async function switchClientTunnel(clientName: string, newProxy: Proxy, config: Config): Promise<void> {
+  // A drain from the previous rotation still occupies the standby slot
+  const draining = drainingTunnels.get(clientName);
+  if (draining) {
+    clearTimeout(draining.timer);
+    await draining.finish();
+  }
+
+  const current = activeTunnels.get(clientName);
+  if (!current) {
+    // Nothing is running that could be kept alive
+    await startTun2Socks(clientName, newProxy, config);
+    return;
+  }
+
+  const lease = getClientLease(clientName);
+  const clientIP = lease.address;
+
+  const oldSlot = current.slot;
+  const newSlot: TunnelSlot = oldSlot === 0 ? 1 : 0;
+  const oldTable = lease.route_tables[oldSlot];
+  const newTable = lease.route_tables[newSlot];
+  const verifyUrl = config.rotation?.verify_url || DEFAULT_VERIFY_URL;
+  const verifyTimeoutMs = config.rotation?.verify_timeout_ms || DEFAULT_VERIFY_TIMEOUT_MS;
+  const drainSeconds = config.rotation?.drain_seconds || 0;
+
+  logger.info(
+    { component: 'tunnel', client: clientName, proxy: newProxy.id, old_slot: oldSlot, new_slot: newSlot },
+    'Starting make-before-break tunnel switch'
+  );
+
+  // Bring up the new tunnel next to the running one
+  let next: TunnelProcess | null = null;
+  try {
+    setupTunDevice(clientName, newSlot, config);
+    next = await startTun2SocksProcess(clientName, newProxy, config, 0, newSlot, false);
+  } catch (error) {
+    teardownTunDevice(clientName, newSlot, config);
+    throw error;
+  }
+
+  if (!next) {
+    teardownTunDevice(clientName, newSlot, config);
+    throw new Error('TUN2SOCKS binary not found');
+  }
+
+  const verified = await verifyTunnel(next.tunInterface, verifyUrl, verifyTimeoutMs);
+  const exited = next.process.exitCode !== null || next.process.signalCode !== null;
+  if (!verified || exited || activeTunnels.get(clientName) !== current) {
+    killTunnelProcess(next);
+    teardownTunDevice(clientName, newSlot, config);
+    logger.error(
+      { component: 'tunnel', client: clientName, proxy: newProxy.id, tun: next.tunInterface },
+      'New tunnel failed verification, keeping current tunnel'
+    );
+    throw new Error(`New tunnel for ${clientName} did not pass traffic`);
+  }
+
+  // From here on the new tunnel owns the client and is auto-restarted on failure
+  activeTunnels.set(clientName, next);
+
+  // Move the source rule: adding first keeps the old rule (same priority, added earlier)
+  // in effect until it is deleted, so there is no moment without a route
+  const swapSourceRule = () => {
+    execSync(`ip rule add priority ${RULE_PRIORITY} from ${clientIP}/32 lookup ${newTable}`, { stdio: 'pipe' });
+    try {
+      execSync(`ip rule del priority ${RULE_PRIORITY} from ${clientIP}/32 lookup ${oldTable}`, { stdio: 'ignore' });
+    } catch (error) {
+      // Rule might not exist, ignore
+    }
+  };
+
+  const retireOldTunnel = () => {
+    killTunnelProcess(current);
+    teardownTunDevice(clientName, oldSlot, config);
+    logger.info({ component: 'tunnel', client: clientName, tun: current.tunInterface }, 'Old tunnel torn down');
+  };
+
+  if (drainSeconds <= 0) {
+    swapSourceRule();
+    retireOldTunnel();
+    logger.info({ component: 'tunnel', client: clientName, tun: next.tunInterface }, 'Tunnel switched');
+    return;
+  }
+
+  // Mark connections opened from now on and route only those through the new tunnel.
+  // Existing connections carry no mark and keep matching the old source rule.
+  const wgInterface = config.wireguard.interface;
+  const mark = DRAIN_MARK_BASE + newTable;
+  const markNew = `PREROUTING -i ${wgInterface} -s ${clientIP}/32 -m conntrack --ctstate NEW -j CONNMARK --set-mark ${mark}`;
+  const restoreMark = `PREROUTING -i ${wgInterface} -s ${clientIP}/32 -j CONNMARK --restore-mark`;
+  const markRule = `priority ${DRAIN_RULE_PRIORITY} from ${clientIP}/32 fwmark ${mark} lookup ${newTable}`;
+
+  execSync(`iptables -t mangle -A ${markNew}`, { stdio: 'pipe' });
+  execSync(`iptables -t mangle -A ${restoreMark}`, { stdio: 'pipe' });
+  execSync(`ip rule add ${markRule}`, { stdio: 'pipe' });
+
+  const finish = async () => {
+    drainingTunnels.delete(clientName);
+    try {
+      swapSourceRule();
+    } catch (error) {
+      logger.error({ component: 'tunnel', client: clientName, error }, 'Failed to move policy rule after drain');
+    }
+    for (const command of [
+      `ip rule del ${markRule}`,
+      `iptables -t mangle -D ${markNew}`,
+      `iptables -t mangle -D ${restoreMark}`,
+    ]) {
+      try {
+        execSync(command, { stdio: 'ignore' });
+      } catch (error) {
+        // Rule might not exist, ignore
+      }
+    }
+    retireOldTunnel();
+  };
+
+  const timer = setTimeout(() => {
+    finish().catch(err => {
+      logger.error({ component: 'tunnel', client: clientName, error: err }, 'Failed to finish tunnel drain');
+    });
+  }, drainSeconds * 1000);
+
+  drainingTunnels.set(clientName, { tunnel: current, timer, finish });
+
+  logger.info(
+    { component: 'tunnel', client: clientName, tun: next.tunInterface, drain_seconds: drainSeconds },
+    'Tunnel switched, draining existing connections on old tunnel'
+  );
+}
+
+/**
+ * Stop a client's tunnel and remove its TUN devices, routes and rules.
+ * Used when a client is disabled or deleted at runtime.
+ */
+export async function removeClientTunnel(clientName: string, config: Config): Promise<void> {
   await stopClientTunnel(clientName);
-  await startTun2Socks(clientName, newProxyUrl, config);
+
+  const clientIP = getClientIP(clientName);
+  if (clientIP) {
+    removePolicyRules(clientIP);
+  }
+
+  teardownTunDevice(clientName, 0, config);
+  teardownTunDevice(clientName, 1, config);
+
+  logger.info({ component: 'tunnel', client: clientName }, 'Client tunnel removed');
 }
 
 /**
@@ -386,7 +692,7 @@ export async function restartClientTunnel(clientName: string, newProxyUrl: strin
 export async function cleanupAllTunnels(): Promise<void> {
   logger.info({ component: 'tunnel' }, 'Cleaning up all tunnels');
 
-  const clientNames = Array.from(activeTunnels.keys());
+  const clientNames = Array.from(new Set([...activeTunnels.keys(), ...drainingTunnels.keys()]));
   
   for (const clientName of clientNames) {
     await stopClientTunnel(clientName);
@@ -394,36 +700,16 @@ export async function cleanupAllTunnels(): Promise<void> {
 
   // Cleanup TUN interfaces and routing rules
   const config = getConfig();
-  for (const client of config.clients) {
-    const tunInterface = sanitizeInterfaceName(client.name);
-    const clientIndex = config.clients.findIndex(c => c.name === client.name);
-    const routeTable = getRouteTable(clientIndex);
-    const clientIP = getClientIP(client.name, config);
+  for (const client of getRegisteredClients()) {
+    const clientIP = getClientIP(client.name);
 
     if (clientIP) {
-      try {
-        // Remove routing rule
-        execSync(`ip rule del from ${clientIP}/32 table ${routeTable}`, { stdio: 'ignore' });
-      } catch (error) {
-        // Rule might not exist, ignore
-      }
+      // Remove routing rules
+      removePolicyRules(clientIP);
 
-      // Remove iptables rules
-      const wgInterface = config.wireguard.interface;
-      try {
-        execSync(`iptables -D FORWARD -i ${wgInterface} -o ${tunInterface} -j ACCEPT`, { stdio: 'ignore' });
-        execSync(`iptables -D FORWARD -i ${tunInterface} -o ${wgInterface} -j ACCEPT`, { stdio: 'ignore' });
-        execSync(`iptables -t nat -D POSTROUTING -o ${tunInterface} -j MASQUERADE`, { stdio: 'ignore' });
-      } catch (error) {
-        // Rules might not exist, ignore
-      }
-
-      // Optionally remove TUN interface (or leave it for reuse)
-      try {
-        execSync(`ip link delete ${tunInterface}`, { stdio: 'ignore' });
-      } catch (error) {
-        // Interface might not exist or be in use, ignore
-      }
+      // Remove iptables rules and TUN interfaces of both slots
+      teardownTunDevice(client.name, 0, config);
+      teardownTunDevice(client.name, 1, config);
     }
   }
 
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getConfig, loadConfig, readConfigFile, replaceConfig } from './config';
+import { emitEvent } from './events';
+import { getWebhookDeliveries, signWebhookPayload, startWebhooks, stopWebhooks } from './webhooks';
+
+const SECRET = 'test-webhook-secret-0123456789';
+
+interface ReceivedRequest {
+  headers: Headers;
+  body: string;
+}
+
+let dataDir: string;
+let receiver: ReturnType<typeof Bun.serve>;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  // Answers the first request with a 503 so the delivery has to retry
+  receiver = Bun.serve({
+    port: 0,
+    hostname: '127.0.0.1',
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() });
+      return new Response(null, { status: received.length === 1 ? 503 : 204 });
+    },
+  });
+
+  dataDir = mkdtempSync(join(tmpdir(), 'webhooks-test-'));
+  const configPath = join(dataDir, 'config.yaml');
+  writeFileSync(configPath, [
+    'wireguard:',
+    '  interface: wg-test',
+    '  listen_port: 51820',
+    '  subnet: 10.99.0.0/24',
+    '  server_ip: 10.99.0.1',
+    'data:',
+    `  dir: ${dataDir}`,
+    'proxies:',
+    '  - url: socks5://127.0.0.1:1080',
+    '    location: test',
+    'webhooks:',
+    `  - url: http://127.0.0.1:${receiver.port}/hooks/token-in-path`,
+    `    secret: ${SECRET}`,
+    '    events: [proxy_rotated]',
+    '    retry_delay_ms: 10',
+    '    max_attempts: 3',
+  ].join('\n'));
+
+  // Test files share modules, so another file may have loaded its config first
+  await loadConfig(configPath);
+  replaceConfig(readConfigFile(configPath));
+});
+
+afterAll(() => {
+  stopWebhooks();
+  receiver.stop(true);
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await Bun.sleep(10);
+  }
+}
+
+test('signs deliveries and retries after a 5xx response', async () => {
+  startWebhooks(getConfig());
+
+  emitEvent({
+    type: 'proxy_rotated',
+    client: 'alice',
+    old_proxy: 'old-proxy',
+    new_proxy: 'new-proxy',
+    old_location: 'DE',
+    new_location: 'FR',
+    trigger: 'manual',
+  });
+
+  await waitFor(() => getWebhookDeliveries()[0]?.status === 'delivered');
+
+  expect(received).toHaveLength(2);
+  for (const request of received) {
+    const timestamp = request.headers.get('x-webhook-timestamp')!;
+    expect(request.headers.get('x-webhook-event')).toBe('proxy_rotated');
+    expect(request.headers.get('x-webhook-signature')).toBe(signWebhookPayload(SECRET, timestamp, request.body));
+    expect(JSON.parse(request.body)).toMatchObject({ type: 'proxy_rotated', client: 'alice', new_proxy: 'new-proxy' });
+  }
+  // Retries are the same delivery
+  expect(received[1].headers.get('x-webhook-id')).toBe(received[0].headers.get('x-webhook-id'));
+
+  const [delivery] = getWebhookDeliveries();
+  expect(delivery.attempts.map(attempt => attempt.status_code)).toEqual([503, 204]);
+  expect(delivery.attempts[0].error).toBe('HTTP 503');
+  // Only the origin is recorded, the path may carry a token
+  expect(delivery.url).toBe(`http://127.0.0.1:${receiver.port}`);
+  expect(statSync(join(dataDir, 'webhooks.json')).mode & 0o777).toBe(0o600);
+});
@@ -0,0 +1,273 @@
+import { createHmac, randomUUID } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { logger } from './logger';
+import { Config, Webhook, getConfig } from './config';
+import { EmittedEvent, subscribeEvents } from './events';
+
+const DELIVERY_LOG_LIMIT = 500; // Oldest deliveries are dropped beyond this
+
+export interface WebhookAttempt {
+  attempt: number;
+  timestamp: string;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  url: string; // Origin only, see getLogUrl
+  event_id: number;
+  event_type: string;
+  status: 'pending' | 'delivered' | 'failed';
+  created_at: string;
+  updated_at: string;
+  next_attempt_at: string | null;
+  attempts: WebhookAttempt[];
+}
+
+interface DeliveryLog {
+  deliveries: WebhookDelivery[];
+}
+
+let cachedLog: DeliveryLog | null = null;
+let unsubscribe: (() => void) | null = null;
+const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+function getDeliveryLogPath(): string {
+  const config = getConfig();
+  const dataDir = config.data?.dir || './data';
+  return join(dataDir, 'webhooks.json');
+}
+
+function loadDeliveryLog(): DeliveryLog {
+  if (cachedLog) {
+    return cachedLog;
+  }
+
+  const logPath = getDeliveryLogPath();
+
+  if (!existsSync(logPath)) {
+    cachedLog = { deliveries: [] };
+    return cachedLog;
+  }
+
+  try {
+    cachedLog = JSON.parse(readFileSync(logPath, 'utf-8')) as DeliveryLog;
+  } catch (error) {
+    // The log is diagnostic only, start over rather than refusing to run
+    logger.error({ component: 'webhooks', error, path: logPath }, 'Failed to load webhook delivery log, starting empty');
+    cachedLog = { deliveries: [] };
+  }
+
+  let migrated = false;
+  for (const delivery of cachedLog.deliveries) {
+    // Logs written before only origins were recorded
+    const url = getLogUrl(delivery.url);
+    if (url !== delivery.url) {
+      delivery.url = url;
+      migrated = true;
+    }
+    // Retries do not survive a restart
+    if (delivery.status === 'pending') {
+      delivery.status = 'failed';
+      delivery.next_attempt_at = null;
+    }
+  }
+  if (migrated) {
+    saveDeliveryLog();
+  }
+
+  return cachedLog;
+}
+
+function saveDeliveryLog(): void {
+  if (!cachedLog) {
+    return;
+  }
+
+  const logPath = getDeliveryLogPath();
+
+  try {
+    if (cachedLog.deliveries.length > DELIVERY_LOG_LIMIT) {
+      cachedLog.deliveries = cachedLog.deliveries.slice(-DELIVERY_LOG_LIMIT);
+    }
+    mkdirSync(dirname(logPath), { recursive: true });
+    writeFileSync(logPath, JSON.stringify(cachedLog, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  } catch (error) {
+    logger.error({ component: 'webhooks', error, path: logPath }, 'Failed to save webhook delivery log');
+  }
+}
+
+/**
+ * Webhook URL for logs and delivery records. Paths and query strings often
+ * carry tokens, so only the origin is kept.
+ */
+function getLogUrl(url: string): string {
+  return new URL(url).origin;
+}
+
+/**
+ * HMAC-SHA256 signature sent in `X-Webhook-Signature`. The timestamp is part
+ * of the signed content so receivers can reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+async function sendAttempt(webhook: Webhook, delivery: WebhookDelivery, body: string): Promise<WebhookAttempt> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const startedAt = Date.now();
+  const attempt: WebhookAttempt = {
+    attempt: delivery.attempts.length + 1,
+    timestamp: new Date(startedAt).toISOString(),
+    status_code: null,
+    error: null,
+    duration_ms: 0,
+  };
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'wireguard-socks5-proxy-webhook',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(webhook.timeout_ms),
+    });
+    attempt.status_code = response.status;
+    if (!response.ok) {
+      attempt.error = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    attempt.error = error instanceof Error ? error.message : String(error);
+  }
+
+  attempt.duration_ms = Date.now() - startedAt;
+  return attempt;
+}
+
+/**
+ * Deliver one event to one webhook, retrying with exponential backoff
+ */
+async function deliver(webhook: Webhook, delivery: WebhookDelivery, body: string): Promise<void> {
+  const attempt = await sendAttempt(webhook, delivery, body);
+
+  delivery.attempts.push(attempt);
+  delivery.updated_at = new Date().toISOString();
+
+  if (!attempt.error) {
+    delivery.status = 'delivered';
+    delivery.next_attempt_at = null;
+    saveDeliveryLog();
+    logger.debug(
+      { component: 'webhooks', url: getLogUrl(webhook.url), event: delivery.event_type, attempt: attempt.attempt },
+      'Webhook delivered'
+    );
+    return;
+  }
+
+  if (attempt.attempt >= webhook.max_attempts) {
+    delivery.status = 'failed';
+    delivery.next_attempt_at = null;
+    saveDeliveryLog();
+    logger.error(
+      { component: 'webhooks', url: getLogUrl(webhook.url), event: delivery.event_type, attempts: attempt.attempt, error: attempt.error },
+      'Webhook delivery failed, giving up'
+    );
+    return;
+  }
+
+  const delayMs = webhook.retry_delay_ms * 2 ** (attempt.attempt - 1);
+  delivery.next_attempt_at = new Date(Date.now() + delayMs).toISOString();
+  saveDeliveryLog();
+  logger.warn(
+    { component: 'webhooks', url: getLogUrl(webhook.url), event: delivery.event_type, attempt: attempt.attempt, error: attempt.error, retry_in_ms: delayMs },
+    'Webhook delivery failed, retrying'
+  );
+
+  const timer = setTimeout(() => {
+    retryTimers.delete(timer);
+    deliver(webhook, delivery, body).catch(err => {
+      logger.error({ component: 'webhooks', error: err, url: getLogUrl(webhook.url) }, 'Error delivering webhook');
+    });
+  }, delayMs);
+  retryTimers.add(timer);
+}
+
+function dispatchEvent(webhooks: Webhook[], event: EmittedEvent): void {
+  const body = JSON.stringify(event);
+
+  for (const webhook of webhooks) {
+    if (!webhook.events.includes(event.type)) {
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      url: getLogUrl(webhook.url),
+      event_id: event.id,
+      event_type: event.type,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+      next_attempt_at: now,
+      attempts: [],
+    };
+    loadDeliveryLog().deliveries.push(delivery);
+
+    deliver(webhook, delivery, body).catch(err => {
+      logger.error({ component: 'webhooks', error: err, url: getLogUrl(webhook.url) }, 'Error delivering webhook');
+    });
+  }
+}
+
+/**
+ * Send matching lifecycle events to the configured webhooks
+ */
+export function startWebhooks(config: Config): void {
+  if (config.webhooks.length === 0) {
+    logger.info({ component: 'webhooks' }, 'No webhooks configured');
+    return;
+  }
+
+  stopWebhooks();
+  loadDeliveryLog();
+
+  unsubscribe = subscribeEvents(event => dispatchEvent(config.webhooks, event));
+
+  logger.info(
+    { component: 'webhooks', webhooks: config.webhooks.map(w => ({ url: getLogUrl(w.url), events: w.events })) },
+    'Webhooks enabled'
+  );
+}
+
+/**
+ * Stop dispatching events and cancel pending retries
+ */
+export function stopWebhooks(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  for (const timer of retryTimers) {
+    clearTimeout(timer);
+  }
+  retryTimers.clear();
+}
+
+/**
+ * Recorded deliveries, newest first
+ */
+export function getWebhookDeliveries(options: { status?: WebhookDelivery['status']; limit?: number } = {}): WebhookDelivery[] {
+  const deliveries = [...loadDeliveryLog().deliveries].reverse();
+  const filtered = options.status ? deliveries.filter(d => d.status === options.status) : deliveries;
+  return filtered.slice(0, options.limit ?? 50);
+}
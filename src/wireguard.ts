@@ -3,18 +3,38 @@ import { join } from 'path';
 import { logger } from './logger';
 import { Config } from './config';
 import { execSync } from 'child_process';
+import { getEnabledClients } from './registry';
+import { emitEvent } from './events';
 
 const WG_DIR = '/etc/wireguard';
 const WG_BIN = '/usr/bin/wg';
 const WG_QUICK_BIN = '/usr/bin/wg-quick';
+const ONLINE_HANDSHAKE_MAX_AGE_SECONDS = 180; // Handshakes renew every 2 minutes on active peers
+const PEER_MONITOR_INTERVAL_MS = 30000;
+
+let peerMonitorInterval: ReturnType<typeof setInterval> | null = null;
+
+// Public keys by private key. Peer lists are built on every status request,
+// so each key is derived with `wg pubkey` once instead of on every call.
+const publicKeyCache = new Map<string, string>();
+
+/**
+ * Public key for a private key, derived once and cached
+ */
+export function derivePublicKey(privateKey: string): string {
+  let publicKey = publicKeyCache.get(privateKey);
+  if (!publicKey) {
+    publicKey = execSync(`${WG_BIN} pubkey`, { input: privateKey, encoding: 'utf-8' }).trim();
+    publicKeyCache.set(privateKey, publicKey);
+  }
+  return publicKey;
+}
 
 export async function initializeWireGuard(config: Config): Promise<void> {
   const dataDir = config.data?.dir || './data';
   const wgDir = join(dataDir, 'wireguard');
   const interfaceName = config.wireguard.interface;
   const keyPath = join(wgDir, `${interfaceName}.key`);
-  const configPath = join(wgDir, `${interfaceName}.conf`);
-  const runtimeConfigPath = join(WG_DIR, `${interfaceName}.conf`);
 
   logger.info({ component: 'wireguard', interface: interfaceName }, 'Initializing WireGuard server');
 
@@ -31,7 +51,7 @@ export async function initializeWireGuard(config: Config): Promise<void> {
     logger.info({ component: 'wireguard' }, 'Generating server keypair');
     try {
       const privateKey = execSync(`${WG_BIN} genkey`, { encoding: 'utf-8' }).trim();
-      const publicKey = execSync(`${WG_BIN} pubkey`, { input: privateKey, encoding: 'utf-8' }).trim();
+      derivePublicKey(privateKey);
 
       writeFileSync(keyPath, privateKey + '\n', { mode: 0o600 });
       logger.info({ component: 'wireguard' }, 'Server keypair generated');
@@ -41,38 +61,17 @@ export async function initializeWireGuard(config: Config): Promise<void> {
     }
   }
 
-  // Read server private key
-  const serverPrivateKey = readFileSync(keyPath, 'utf-8').trim();
-
-  // Create or update server config
-  const serverConfig = generateServerConfig(config, serverPrivateKey);
-  writeFileSync(configPath, serverConfig, { mode: 0o600 });
-  logger.info({ component: 'wireguard', path: configPath }, 'Server config written to project directory');
-
-  // Copy to /etc/wireguard/ for kernel module
+  // Ensure runtime directory exists for wg-quick
   try {
     mkdirSync(WG_DIR, { recursive: true });
-    writeFileSync(runtimeConfigPath, serverConfig, { mode: 0o600 });
-    logger.info({ component: 'wireguard', path: runtimeConfigPath }, 'Server config copied to /etc/wireguard/');
   } catch (error) {
-    logger.error({ component: 'wireguard', error }, 'Failed to copy config to /etc/wireguard/');
+    logger.error({ component: 'wireguard', error }, 'Failed to create /etc/wireguard/');
     throw error;
   }
 
-  // Bring up WireGuard interface
-  try {
-    execSync(`${WG_QUICK_BIN} down ${interfaceName}`, { stdio: 'ignore' });
-  } catch (error) {
-    // Interface might not exist, ignore error
-  }
-
-  try {
-    execSync(`${WG_QUICK_BIN} up ${interfaceName}`, { stdio: 'pipe' });
-    logger.info({ component: 'wireguard', interface: interfaceName }, 'WireGuard interface brought up');
-  } catch (error) {
-    logger.error({ component: 'wireguard', error }, 'Failed to bring up WireGuard interface');
-    throw error;
-  }
+  // Write config with the peers known so far and bring the interface up.
+  // An interface that is already running with the same settings is left up.
+  await updateWireGuardConfig(config);
 }
 
 export function generateServerConfig(config: Config, serverPrivateKey: string): string {
@@ -89,10 +88,148 @@ ListenPort = ${listen_port}
   return configContent;
 }
 
+interface WireGuardPeer {
+  clientName: string;
+  publicKey: string;
+  allowedIPs: string;
+}
+
+/**
+ * Collect peers of enabled clients from the client configs on disk
+ */
+function collectPeers(config: Config): WireGuardPeer[] {
+  const dataDir = config.data?.dir || './data';
+  const clientsDir = join(dataDir, 'clients');
+  const peers: WireGuardPeer[] = [];
+
+  for (const client of getEnabledClients()) {
+    const clientConfigPath = join(clientsDir, `${client.name}.conf`);
+    if (!existsSync(clientConfigPath)) {
+      continue;
+    }
+
+    const clientConfig = readFileSync(clientConfigPath, 'utf-8');
+    const privateKeyMatch = clientConfig.match(/PrivateKey\s*=\s*([A-Za-z0-9+/=]+)/);
+    if (!privateKeyMatch) {
+      continue;
+    }
+
+    try {
+      const clientPublicKey = derivePublicKey(privateKeyMatch[1]);
+      const allowedIPsMatch = clientConfig.match(/Address\s*=\s*(\d+\.\d+\.\d+\.\d+)\/\d+/);
+      const clientIP = allowedIPsMatch ? allowedIPsMatch[1] : '';
+
+      if (clientIP) {
+        peers.push({ clientName: client.name, publicKey: clientPublicKey, allowedIPs: `${clientIP}/32` });
+      }
+    } catch (error) {
+      logger.warn({ component: 'wireguard', client: client.name, error }, 'Failed to extract client public key');
+    }
+  }
+
+  return peers;
+}
+
+/**
+ * Return the [Interface] part of a server config (everything before the first peer)
+ */
+function getInterfaceSection(serverConfig: string): string {
+  const peerIndex = serverConfig.indexOf('[Peer]');
+  return (peerIndex === -1 ? serverConfig : serverConfig.slice(0, peerIndex)).trim();
+}
+
+function isInterfaceUp(interfaceName: string): boolean {
+  try {
+    execSync(`${WG_BIN} show ${interfaceName}`, { stdio: 'ignore' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Read peers from the live interface as public key -> allowed IPs
+ */
+function getLivePeers(interfaceName: string): Map<string, string> {
+  const output = execSync(`${WG_BIN} show ${interfaceName} allowed-ips`, { encoding: 'utf-8' });
+  const peers = new Map<string, string>();
+
+  for (const line of output.split('\n')) {
+    const [publicKey, allowedIPs] = line.trim().split('\t');
+    if (publicKey) {
+      const ips = !allowedIPs || allowedIPs === '(none)' ? '' : allowedIPs.split(' ').sort().join(',');
+      peers.set(publicKey, ips);
+    }
+  }
+
+  return peers;
+}
+
+/**
+ * Add a peer to the live interface, or update its allowed IPs
+ */
+export function setWireGuardPeer(interfaceName: string, publicKey: string, allowedIPs: string): void {
+  execSync(`${WG_BIN} set ${interfaceName} peer ${publicKey} allowed-ips ${allowedIPs}`, { stdio: 'pipe' });
+}
+
+/**
+ * Remove a peer from the live interface
+ */
+export function removeWireGuardPeer(interfaceName: string, publicKey: string): void {
+  execSync(`${WG_BIN} set ${interfaceName} peer ${publicKey} remove`, { stdio: 'pipe' });
+}
+
+/**
+ * Apply the difference between desired and live peers with `wg set`,
+ * leaving unchanged peers (and their sessions) untouched
+ */
+function syncPeers(interfaceName: string, peers: WireGuardPeer[]): void {
+  const livePeers = getLivePeers(interfaceName);
+  const desiredKeys = new Set(peers.map(p => p.publicKey));
+  let added = 0;
+  let updated = 0;
+  let removed = 0;
+
+  for (const peer of peers) {
+    const liveAllowedIPs = livePeers.get(peer.publicKey);
+    const desiredAllowedIPs = peer.allowedIPs.split(',').sort().join(',');
+
+    if (liveAllowedIPs === desiredAllowedIPs) {
+      continue;
+    }
+
+    setWireGuardPeer(interfaceName, peer.publicKey, peer.allowedIPs);
+    if (liveAllowedIPs === undefined) {
+      added++;
+      logger.info({ component: 'wireguard', client: peer.clientName }, 'Peer added');
+    } else {
+      updated++;
+      logger.info({ component: 'wireguard', client: peer.clientName }, 'Peer updated');
+    }
+  }
+
+  for (const publicKey of livePeers.keys()) {
+    if (!desiredKeys.has(publicKey)) {
+      removeWireGuardPeer(interfaceName, publicKey);
+      removed++;
+      logger.info({ component: 'wireguard', public_key: publicKey }, 'Peer removed');
+    }
+  }
+
+  logger.info(
+    { component: 'wireguard', interface: interfaceName, added, updated, removed },
+    'WireGuard peers synced'
+  );
+}
+
+/**
+ * Write the server config with all client peers and apply it. Peer changes
+ * are applied to the running interface in place; the interface is only
+ * restarted when interface-level settings changed or it is not up.
+ */
 export async function updateWireGuardConfig(config: Config): Promise<void> {
   const dataDir = config.data?.dir || './data';
   const wgDir = join(dataDir, 'wireguard');
-  const clientsDir = join(dataDir, 'clients');
   const interfaceName = config.wireguard.interface;
   const keyPath = join(wgDir, `${interfaceName}.key`);
   const configPath = join(wgDir, `${interfaceName}.conf`);
@@ -105,46 +242,46 @@ export async function updateWireGuardConfig(config: Config): Promise<void> {
   const serverPrivateKey = readFileSync(keyPath, 'utf-8').trim();
   let serverConfig = generateServerConfig(config, serverPrivateKey);
 
-  // Read all client configs and extract public keys
-  const clientConfigs = config.clients;
-  for (const client of clientConfigs) {
-    const clientConfigPath = join(clientsDir, `${client.name}.conf`);
-    if (existsSync(clientConfigPath)) {
-      const clientConfig = readFileSync(clientConfigPath, 'utf-8');
-      const privateKeyMatch = clientConfig.match(/PrivateKey\s*=\s*([A-Za-z0-9+/=]+)/);
-      if (privateKeyMatch) {
-        const clientPrivateKey = privateKeyMatch[1];
-        try {
-          const clientPublicKey = execSync(`${WG_BIN} pubkey`, { input: clientPrivateKey, encoding: 'utf-8' }).trim();
-          const allowedIPsMatch = clientConfig.match(/Address\s*=\s*(\d+\.\d+\.\d+\.\d+)\/\d+/);
-          const clientIP = allowedIPsMatch ? allowedIPsMatch[1] : '';
-
-          if (clientIP) {
-            serverConfig += `[Peer]
-PublicKey = ${clientPublicKey}
-AllowedIPs = ${clientIP}/32
+  const peers = collectPeers(config);
+  for (const peer of peers) {
+    serverConfig += `[Peer]
+PublicKey = ${peer.publicKey}
+AllowedIPs = ${peer.allowedIPs}
 
 `;
-          }
-        } catch (error) {
-          logger.warn({ component: 'wireguard', client: client.name, error }, 'Failed to extract client public key');
-        }
-      }
-    }
   }
 
+  // Remember what the interface was last brought up with
+  const previousConfig = existsSync(runtimeConfigPath) ? readFileSync(runtimeConfigPath, 'utf-8') : null;
+
   // Write updated config to project directory
   writeFileSync(configPath, serverConfig, { mode: 0o600 });
   logger.info({ component: 'wireguard', path: configPath }, 'Server config updated in project directory');
 
-  // Copy to /etc/wireguard/ and reload
   try {
+    // Copy to /etc/wireguard/ so wg-quick uses the same config
     writeFileSync(runtimeConfigPath, serverConfig, { mode: 0o600 });
-    execSync(`${WG_QUICK_BIN} down ${interfaceName}`, { stdio: 'ignore' });
-    execSync(`${WG_QUICK_BIN} up ${interfaceName}`, { stdio: 'pipe' });
-    logger.info({ component: 'wireguard', interface: interfaceName }, 'WireGuard config reloaded');
+
+    const interfaceChanged = previousConfig === null ||
+      getInterfaceSection(previousConfig) !== getInterfaceSection(serverConfig);
+
+    if (interfaceChanged || !isInterfaceUp(interfaceName)) {
+      try {
+        execSync(`${WG_QUICK_BIN} down ${interfaceName}`, { stdio: 'ignore' });
+      } catch (error) {
+        // Interface might not exist, ignore error
+      }
+      execSync(`${WG_QUICK_BIN} up ${interfaceName}`, { stdio: 'pipe' });
+      logger.info(
+        { component: 'wireguard', interface: interfaceName, interface_changed: interfaceChanged },
+        'WireGuard interface brought up'
+      );
+      return;
+    }
+
+    syncPeers(interfaceName, peers);
   } catch (error) {
-    logger.error({ component: 'wireguard', error }, 'Failed to reload WireGuard config');
+    logger.error({ component: 'wireguard', error }, 'Failed to apply WireGuard config');
     throw error;
   }
 }
@@ -157,3 +294,155 @@ export function getWireGuardStatus(interfaceName: string): any {
     return { status: 'down', error: String(error) };
   }
 }
+
+export interface PeerStatus {
+  client: string | null;
+  public_key: string;
+  endpoint: string | null;
+  allowed_ips: string[];
+  latest_handshake: string | null;
+  handshake_age_seconds: number | null;
+  rx_bytes: number; // Received by the server (client upload)
+  tx_bytes: number; // Sent by the server (client download)
+  online: boolean;
+}
+
+export interface WireGuardPeerStatus {
+  status: 'up' | 'down';
+  peers: PeerStatus[];
+  error?: string;
+}
+
+/**
+ * Parse `wg show <iface> dump` into per-peer status. The first line
+ * describes the interface; every following line is one peer.
+ */
+export function parseWireGuardDump(output: string, clientsByPublicKey: Map<string, string>, now: Date = new Date()): PeerStatus[] {
+  const lines = output.trim().split('\n').slice(1);
+  const peers: PeerStatus[] = [];
+
+  for (const line of lines) {
+    const fields = line.split('\t');
+    if (fields.length < 8) {
+      continue;
+    }
+
+    const [publicKey, , endpoint, allowedIPs, latestHandshake, rxBytes, txBytes] = fields;
+    const handshakeEpoch = parseInt(latestHandshake, 10);
+    const hasHandshake = handshakeEpoch > 0;
+    const handshakeAge = hasHandshake ? Math.max(0, Math.floor(now.getTime() / 1000) - handshakeEpoch) : null;
+
+    peers.push({
+      client: clientsByPublicKey.get(publicKey) || null,
+      public_key: publicKey,
+      endpoint: endpoint === '(none)' ? null : endpoint,
+      allowed_ips: allowedIPs === '(none)' ? [] : allowedIPs.split(','),
+      latest_handshake: hasHandshake ? new Date(handshakeEpoch * 1000).toISOString() : null,
+      handshake_age_seconds: handshakeAge,
+      rx_bytes: parseInt(rxBytes, 10) || 0,
+      tx_bytes: parseInt(txBytes, 10) || 0,
+      online: handshakeAge !== null && handshakeAge <= ONLINE_HANDSHAKE_MAX_AGE_SECONDS,
+    });
+  }
+
+  return peers;
+}
+
+/**
+ * Get typed per-peer status for the interface, with peers mapped back to client names
+ */
+export function getPeerStatuses(config: Config): WireGuardPeerStatus {
+  const interfaceName = config.wireguard.interface;
+
+  let output: string;
+  try {
+    output = execSync(`${WG_BIN} show ${interfaceName} dump`, { encoding: 'utf-8' });
+  } catch (error) {
+    return { status: 'down', peers: [], error: String(error) };
+  }
+
+  const clientsByPublicKey = new Map(collectPeers(config).map(p => [p.publicKey, p.clientName]));
+  return { status: 'up', peers: parseWireGuardDump(output, clientsByPublicKey) };
+}
+
+/**
+ * Get status of a single client's peer
+ */
+export function getClientPeerStatus(clientName: string, config: Config): PeerStatus | null {
+  const { peers } = getPeerStatuses(config);
+  return peers.find(p => p.client === clientName) || null;
+}
+
+/**
+ * Poll peer status and emit peer_online / peer_offline events on transitions.
+ * The first poll only records the current state, except that an interface
+ * that is already down is reported right away.
+ */
+export function startPeerMonitor(config: Config): void {
+  const onlinePeers = new Map<string, boolean>();
+  let initialized = false;
+  let interfaceUp: boolean | null = null;
+
+  const poll = () => {
+    const { status, peers, error } = getPeerStatuses(config);
+    if (status !== 'up') {
+      if (interfaceUp !== false) {
+        logger.error({ component: 'wireguard', interface: config.wireguard.interface, error }, 'WireGuard interface is down');
+        // The full error includes the command's stderr, the first line is enough
+        emitEvent({ type: 'wireguard_down', interface: config.wireguard.interface, error: error?.split('\n')[0] || null });
+      }
+      interfaceUp = false;
+      return;
+    }
+
+    if (interfaceUp === false) {
+      logger.info({ component: 'wireguard', interface: config.wireguard.interface }, 'WireGuard interface is up again');
+      emitEvent({ type: 'wireguard_up', interface: config.wireguard.interface });
+    }
+    interfaceUp = true;
+
+    for (const peer of peers) {
+      if (!peer.client) {
+        continue;
+      }
+
+      const wasOnline = onlinePeers.get(peer.client);
+      onlinePeers.set(peer.client, peer.online);
+
+      if (!initialized || wasOnline === peer.online) {
+        continue;
+      }
+      if (peer.online) {
+        emitEvent({ type: 'peer_online', client: peer.client, endpoint: peer.endpoint, latest_handshake: peer.latest_handshake });
+      } else if (wasOnline) {
+        emitEvent({ type: 'peer_offline', client: peer.client, latest_handshake: peer.latest_handshake });
+      }
+    }
+    initialized = true;
+  };
+
+  if (peerMonitorInterval) {
+    clearInterval(peerMonitorInterval);
+  }
+
+  // A failing poll must neither stop the monitor nor abort startup
+  const safePoll = () => {
+    try {
+      poll();
+    } catch (error) {
+      logger.error({ component: 'wireguard', error }, 'Error polling peer status');
+    }
+  };
+
+  safePoll();
+  peerMonitorInterval = setInterval(safePoll, PEER_MONITOR_INTERVAL_MS);
+
+  logger.info({ component: 'wireguard', interval_ms: PEER_MONITOR_INTERVAL_MS }, 'Peer monitor started');
+}
+
+export function stopPeerMonitor(): void {
+  if (peerMonitorInterval) {
+    clearInterval(peerMonitorInterval);
+    peerMonitorInterval = null;
+  }
+}